@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSession,
+  getSessionCookieOptions,
+  LoginSchema,
+  SESSION_COOKIE,
+  toUserResponse,
+  verifyCredentials,
+} from "@/src/auth";
+import { listWorkspacesForUser } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+/**
+ * Sign in with email and password; sets the session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = LoginSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid login", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const user = await verifyCredentials(parsed.data);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user: toUserResponse(user),
+      workspaces: listWorkspacesForUser(user.id),
+    });
+    response.cookies.set(SESSION_COOKIE, createSession(user.id), getSessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Login error:", error);
+    const message = error instanceof Error ? error.message : "Login failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession, getCookie, SESSION_COOKIE } from "@/src/auth";
+export const runtime = "nodejs";
+
+/**
+ * End the current session
+ */
+export async function POST(request: NextRequest) {
+  const token = getCookie(request.headers, SESSION_COOKIE);
+  if (token) deleteSession(token);
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
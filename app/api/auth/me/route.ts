@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, getUser, toUserResponse } from "@/src/auth";
+import { getWorkspace, listWorkspacesForUser } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+/**
+ * The signed-in user (if any), the active workspace and the user's other workspaces
+ */
+export async function GET(request: NextRequest) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const user = principal.userId ? getUser(principal.userId) : null;
+  return NextResponse.json({
+    success: true,
+    method: principal.method,
+    user: user ? toUserResponse(user) : null,
+    workspaceId: principal.workspaceId,
+    workspace: getWorkspace(principal.workspaceId),
+    workspaces: user ? listWorkspacesForUser(user.id) : [],
+  });
+}
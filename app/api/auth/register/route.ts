@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSession,
+  getSessionCookieOptions,
+  isRegistrationAllowed,
+  registerUser,
+  RegistrationSchema,
+  SESSION_COOKIE,
+  toUserResponse,
+} from "@/src/auth";
+import { listWorkspacesForUser } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+/**
+ * Create an account with a personal workspace and sign in
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isRegistrationAllowed()) {
+      return NextResponse.json(
+        { error: "Registration is disabled" },
+        { status: 403 }
+      );
+    }
+
+    const parsed = RegistrationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid registration", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const user = await registerUser(parsed.data);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Email is already registered" },
+        { status: 409 }
+      );
+    }
+
+    const response = NextResponse.json(
+      { success: true, user: toUserResponse(user), workspaces: listWorkspacesForUser(user.id) },
+      { status: 201 }
+    );
+    response.cookies.set(SESSION_COOKIE, createSession(user.id), getSessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Registration error:", error);
+    const message = error instanceof Error ? error.message : "Registration failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
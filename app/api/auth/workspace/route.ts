@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getCookie, SESSION_COOKIE, switchSessionWorkspace } from "@/src/auth";
+export const runtime = "nodejs";
+
+const SwitchWorkspaceSchema = z.object({ workspaceId: z.string().min(1) });
+
+/**
+ * Switch the current session to another of the user's workspaces
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = getCookie(request.headers, SESSION_COOKIE);
+    if (!token) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const parsed = SwitchWorkspaceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid workspace", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (!switchSessionWorkspace(token, parsed.data.workspaceId)) {
+      return NextResponse.json(
+        { error: `Workspace ${parsed.data.workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, workspaceId: parsed.data.workspaceId });
+  } catch (error) {
+    console.error("Switch workspace error:", error);
+    const message = error instanceof Error ? error.message : "Failed to switch workspace";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVectorStoreCacheStats } from "@/src/vectorStore";
+import { getQueryEmbeddingCacheStats } from "@/src/embeddingPipeline";
+import { authenticate } from "@/src/auth";
+export const runtime = "nodejs";
+
+/**
+ * Cache statistics for monitoring: loaded vector stores (sizes in bytes)
+ * and query embeddings (sizes in entries)
+ */
+export async function GET(request: NextRequest) {
+  if (!(await authenticate(request))) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    vectorStores: getVectorStoreCacheStats(),
+    queryEmbeddings: getQueryEmbeddingCacheStats(),
+    timestamp: new Date().toISOString(),
+  });
+}
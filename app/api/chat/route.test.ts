@@ -0,0 +1,41 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Conversations and traces are written under the working directory, so the
+// route runs in a scratch directory
+const repoDir = process.cwd();
+let workDir: string;
+let route: typeof import("./route");
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rag-chat-"));
+  process.chdir(workDir);
+  vi.stubEnv("AUTH_DISABLED", "true");
+  vi.stubEnv("LLM_PROVIDER", "fake");
+  route = await import("./route");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  process.chdir(repoDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+function post(body: string) {
+  return route.POST(new NextRequest("http://localhost/api/chat", { method: "POST", body }));
+}
+
+describe("POST /api/chat", () => {
+  it("rejects a body that is not valid JSON", async () => {
+    const response = await post("{ input: ");
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid chat request: request body is not valid JSON");
+  });
+
+  it("rejects a body that is not an object", async () => {
+    expect((await post("null")).status).toBe(400);
+  });
+});
@@ -1,12 +1,56 @@
 import { NextRequest, NextResponse } from "next/server";
-import { chatbotGraph } from "@/src/agent";
+import {
+  chatbotGraph,
+  streamChatbotGraph,
+  type ChatHistoryMessage,
+  type ChatStreamEvent,
+  type RAGResponse,
+} from "@/src/agent";
+import { RETRIEVAL_MODES } from "@/src/lexicalIndex";
+import { getProfile } from "@/src/profiles";
+import { RerankOptionsSchema } from "@/src/reranking";
+import { authenticate, type Principal } from "@/src/auth";
+import { getStoreAccess } from "@/src/workspaces";
+import {
+  appendConversationTurn,
+  canAccessConversation,
+  createConversation,
+  getConversation,
+  type Conversation,
+} from "@/src/conversations";
+import { getProviderConfigError } from "@/src/providers";
+import { finishTrace, startTrace, type Trace } from "@/src/tracing";
+import { redactError, redactErrorMessage } from "@/src/redaction";
+import { consumeUsage, getClientId } from "@/src/rateLimits";
 // Force Node runtime for LLM & filesystem usage
 export const runtime = "nodejs";
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { input, storeId } = body;
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid chat request: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    if (typeof body !== "object" || body === null) {
+      return NextResponse.json(
+        { error: "Invalid chat request: expected a JSON object" },
+        { status: 400 }
+      );
+    }
+
+    const { input, storeId, stream, retrievalMode, nprobe, profileId, conversationId } = body;
+    // storeId (single document) is still accepted alongside storeIds
+    const storeIds: unknown = body.storeIds ?? (storeId ? [storeId] : []);
 
     if (!input || typeof input !== "string") {
       return NextResponse.json(
@@ -15,40 +59,254 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!Array.isArray(storeIds) || !storeIds.every((id) => typeof id === "string" && id.length > 0)) {
+      return NextResponse.json(
+        { error: "Invalid storeIds: expected an array of store IDs" },
+        { status: 400 }
+      );
+    }
+
+    // Stores the caller cannot see are reported as missing
+    for (const id of storeIds) {
+      if (!(await getStoreAccess(principal, id))) {
+        return NextResponse.json(
+          { error: `Store ${id} not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Continuing a saved conversation: its messages are the history
+    let conversation: Conversation | null = null;
+    if (conversationId !== undefined) {
+      conversation = typeof conversationId === "string" ? getConversation(conversationId) : null;
+      if (!conversation || !canAccessConversation(principal, conversation)) {
+        return NextResponse.json(
+          { error: `Conversation ${conversationId} not found` },
+          { status: 404 }
+        );
+      }
+    }
+    const history: unknown = conversation
+      ? conversation.messages.map(({ role, content }) => ({ role, content }))
+      : body.history ?? [];
+
+    if (!isValidHistory(history)) {
+      return NextResponse.json(
+        { error: "Invalid history: expected an array of { role: 'user' | 'assistant', content: string }" },
+        { status: 400 }
+      );
+    }
+
+    if (retrievalMode !== undefined && !RETRIEVAL_MODES.includes(retrievalMode)) {
+      return NextResponse.json(
+        { error: `Invalid retrievalMode: expected one of ${RETRIEVAL_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (nprobe !== undefined && (!Number.isInteger(nprobe) || nprobe < 1 || nprobe > 1024)) {
+      return NextResponse.json(
+        { error: "Invalid nprobe: expected an integer between 1 and 1024" },
+        { status: 400 }
+      );
+    }
+
+    if (profileId !== undefined && (typeof profileId !== "string" || !getProfile(profileId))) {
       return NextResponse.json(
-        { error: "OpenAI API key not configured" },
+        { error: `Profile ${profileId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const rerank = RerankOptionsSchema.optional().safeParse(body.rerank);
+    if (!rerank.success) {
+      return NextResponse.json(
+        { error: "Invalid rerank", issues: rerank.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const providerError = getProviderConfigError();
+    if (providerError) {
+      return NextResponse.json(
+        { error: providerError },
         { status: 500 }
       );
     }
 
-    console.log("Chat request:", { input: input.substring(0, 50), storeId });
-    console.log("Using endpoints:", {
-      chat: process.env.OPENAI_CHAT_BASE_URL || "default",
-      embeddings: process.env.OPENAI_EMBEDDINGS_BASE_URL || "default",
+    // Only requests that will reach the model count towards the client's limits
+    const exceeded = await consumeUsage(getClientId(request, principal), { chatRequests: 1 });
+    if (exceeded) {
+      return NextResponse.json(
+        { error: exceeded.message, limit: exceeded.limit, retryAfter: exceeded.retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(exceeded.retryAfterSeconds) } }
+      );
+    }
+
+    const trace = startTrace("chat", {
+      workspaceId: principal.workspaceId,
+      storeIds,
+      retrievalMode,
+      profileId,
+      question: input,
     });
+    const saveTurn = (result: RAGResponse) => {
+      const saved = recordTurn(principal, conversation, { input, storeIds, profileId, result, traceId: trace.id });
+      trace.conversationId = saved.conversationId;
+      return saved;
+    };
 
-    // Call the chatbot graph from agent.ts with optional storeId
-    const result = await chatbotGraph({ input, storeId });
+    // Streaming mode: newline-delimited JSON, one ChatStreamEvent per line
+    if (stream) {
+      return streamResponse(
+        streamChatbotGraph({ input, storeIds, history, retrievalMode, profileId, rerank: rerank.data, nprobe, trace }),
+        saveTurn,
+        trace
+      );
+    }
+
+    // Call the chatbot graph from agent.ts with optional storeIds
+    let result: RAGResponse;
+    try {
+      result = await chatbotGraph({
+        input,
+        storeIds,
+        history,
+        retrievalMode,
+        profileId,
+        rerank: rerank.data,
+        nprobe,
+        trace,
+      });
+    } catch (error) {
+      finishTrace(trace, error);
+      throw error;
+    }
+    const saved = saveTurn(result);
+    finishTrace(trace);
 
     return NextResponse.json({
       answer: result.answer,
       citations: result.citations,
       confidence: result.confidence,
+      validation: result.validation,
+      ...saved,
+      traceId: trace.id,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error("Chat API error:", error);
-    const message = error instanceof Error ? error.message : "Internal server error";
-    const fullError = error instanceof Error ? error.stack : String(error);
-    console.error("Full error details:", fullError);
+    console.error("Chat API error:", redactError(error));
+    const message = error instanceof Error ? redactErrorMessage(error) : "Internal server error";
     return NextResponse.json(
-      { error: message, details: fullError },
+      { error: message },
       { status: 500 }
     );
   }
 }
 
+function isValidHistory(history: unknown): history is ChatHistoryMessage[] {
+  return (
+    Array.isArray(history) &&
+    history.every(
+      (message) =>
+        message &&
+        (message.role === "user" || message.role === "assistant") &&
+        typeof message.content === "string"
+    )
+  );
+}
+
+type SavedTurn = { conversationId: string; messageId?: string };
+
+/**
+ * Save a question and its answer to the request's conversation, starting a
+ * new conversation if none was given. Returns the ids of the conversation
+ * and the saved answer.
+ */
+function recordTurn(
+  principal: Principal,
+  conversation: Conversation | null,
+  {
+    input,
+    storeIds,
+    profileId,
+    result,
+    traceId,
+  }: { input: string; storeIds: string[]; profileId?: string; result: RAGResponse; traceId?: string }
+): SavedTurn {
+  const target = conversation ?? createConversation(principal, { storeIds, profileId });
+  const updated = appendConversationTurn(target.id, {
+    question: input,
+    answer: {
+      content: result.answer,
+      citations: result.citations,
+      confidence: result.confidence,
+      validation: result.validation,
+      traceId,
+    },
+    storeIds,
+    profileId,
+  });
+  return { conversationId: target.id, messageId: updated?.messages[updated.messages.length - 1].id };
+}
+
+/**
+ * Serialize chat stream events as NDJSON, reporting failures as an error
+ * event. The final answer is saved with `onFinal` before it is sent, and
+ * the trace is finished once the stream ends.
+ */
+function streamResponse(
+  events: AsyncGenerator<ChatStreamEvent>,
+  onFinal: (result: RAGResponse) => SavedTurn,
+  trace: Trace
+) {
+  const encoder = new TextEncoder();
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    event: ChatStreamEvent & Partial<SavedTurn> & { traceId?: string; timestamp?: string }
+  ) => controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let failure: unknown;
+      try {
+        for await (const event of events) {
+          if (event.type === "final") {
+            send(controller, {
+              ...event,
+              ...onFinal(event),
+              traceId: trace.id,
+              timestamp: new Date().toISOString(),
+            });
+          } else {
+            send(controller, event);
+          }
+        }
+      } catch (error) {
+        failure = error;
+        console.error("Chat stream error:", redactError(error));
+        const message = error instanceof Error ? redactErrorMessage(error) : "Internal server error";
+        send(controller, { type: "error", error: message });
+      } finally {
+        finishTrace(trace, failure);
+        controller.close();
+      }
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
 // Optional: GET handler for health check
 export async function GET() {
   return NextResponse.json({
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { canAccessConversation, getConversation } from "@/src/conversations";
+import { EXPORT_FORMATS, exportConversation, type ExportFormat } from "@/src/conversationExport";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Export a conversation as Markdown, JSON or a printable HTML report.
+ * `?messageId=` exports a single answer. HTML is served inline so it can be
+ * printed (or saved as PDF) from the browser; the others download.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const format = (searchParams.get("format") || "markdown") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `Invalid format: expected one of ${EXPORT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const conversation = getConversation(id);
+  if (!conversation || !canAccessConversation(principal, conversation)) {
+    return NextResponse.json(
+      { error: `Conversation ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const messageId = searchParams.get("messageId") || undefined;
+  const exported = exportConversation(conversation, { format, messageId });
+  if (!exported) {
+    return NextResponse.json(
+      { error: `Answer ${messageId} not found in conversation ${id}` },
+      { status: 404 }
+    );
+  }
+
+  return new Response(exported.content, {
+    headers: {
+      "Content-Type": exported.contentType,
+      "Content-Disposition": `${format === "html" ? "inline" : "attachment"}; filename="${exported.fileName}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate } from "@/src/auth";
+import {
+  canAccessConversation,
+  deleteConversation,
+  getConversation,
+  toConversationSummary,
+  updateConversation,
+} from "@/src/conversations";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ConversationUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
+
+/**
+ * Load a conversation with all of its messages
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const conversation = getConversation(id);
+  if (!conversation || !canAccessConversation(principal, conversation)) {
+    return NextResponse.json(
+      { error: `Conversation ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, conversation });
+}
+
+/**
+ * Rename a conversation
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    let input: unknown;
+    try {
+      input = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid conversation update: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = ConversationUpdateSchema.safeParse(input);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid conversation update", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const existing = getConversation(id);
+    if (!existing || !canAccessConversation(principal, existing)) {
+      return NextResponse.json(
+        { error: `Conversation ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const conversation = updateConversation(id, parsed.data);
+    return NextResponse.json({ success: true, conversation: conversation && toConversationSummary(conversation) });
+  } catch (error) {
+    console.error("Update conversation error:", error);
+    const message = error instanceof Error ? error.message : "Failed to update conversation";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * Delete a conversation
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const conversation = getConversation(id);
+  if (!conversation || !canAccessConversation(principal, conversation)) {
+    return NextResponse.json(
+      { error: `Conversation ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  deleteConversation(id);
+  return NextResponse.json({ success: true, conversationId: id });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate } from "@/src/auth";
+import { createConversation, listConversations, toConversationSummary } from "@/src/conversations";
+import { getStoreAccess } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+const ConversationInputSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  storeIds: z.array(z.string().min(1)).default([]),
+});
+
+/**
+ * List the caller's conversations, most recently updated first
+ */
+export async function GET(request: NextRequest) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const conversations = listConversations(principal);
+    return NextResponse.json({ success: true, conversations, count: conversations.length });
+  } catch (error) {
+    console.error("Fetch conversations error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch conversations" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start an empty conversation (chatting without a conversationId also starts one)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const body = await request.text();
+    let input: unknown;
+    try {
+      input = body ? JSON.parse(body) : {};
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid conversation: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = ConversationInputSchema.safeParse(input);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid conversation", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    for (const storeId of parsed.data.storeIds) {
+      if (!(await getStoreAccess(principal, storeId))) {
+        return NextResponse.json(
+          { error: `Store ${storeId} not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const conversation = createConversation(principal, parsed.data);
+    return NextResponse.json(
+      { success: true, conversation: toConversationSummary(conversation) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create conversation error:", error);
+    const message = error instanceof Error ? error.message : "Failed to create conversation";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
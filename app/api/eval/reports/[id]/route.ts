@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { formatEvalReportMarkdown, getEvalReport } from "@/src/evaluation";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * A saved evaluation report as JSON, or Markdown with `?format=markdown`
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!(await authenticate(request))) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const report = getEvalReport(id);
+  if (!report) {
+    return NextResponse.json(
+      { error: `Report ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  if (request.nextUrl.searchParams.get("format") === "markdown") {
+    return new Response(formatEvalReportMarkdown(report), {
+      headers: { "Content-Type": "text/markdown; charset=utf-8" },
+    });
+  }
+  return NextResponse.json({ success: true, report });
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate } from "@/src/auth";
+import {
+  EvalConfigSchema,
+  EvalDatasetSchema,
+  listEvalDatasets,
+  getEvalReport,
+  listEvalReports,
+  readEvalDataset,
+  runEvaluation,
+} from "@/src/evaluation";
+import { getStoreAccess } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+const EvalRunSchema = z.object({
+  // Name of a dataset file in evaluation/
+  dataset: z.string().min(1),
+  config: EvalConfigSchema.default({}),
+  baselineId: z.string().optional(),
+});
+
+/**
+ * List the available datasets and saved reports
+ */
+export async function GET(request: NextRequest) {
+  if (!(await authenticate(request))) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const dataset = request.nextUrl.searchParams.get("dataset") || undefined;
+  return NextResponse.json({
+    success: true,
+    datasets: listEvalDatasets(),
+    reports: listEvalReports(dataset),
+  });
+}
+
+/**
+ * Run a dataset and return the report (saved to .eval_reports/)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid evaluation run: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = EvalRunSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid evaluation run", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const raw = readEvalDataset(parsed.data.dataset);
+    if (raw === null) {
+      return NextResponse.json(
+        { error: `Dataset ${parsed.data.dataset} not found` },
+        { status: 404 }
+      );
+    }
+    const dataset = EvalDatasetSchema.safeParse(raw);
+    if (!dataset.success) {
+      return NextResponse.json(
+        { error: "Invalid dataset", issues: dataset.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Datasets may point at existing stores: only ones the caller can read
+    for (const doc of dataset.data.documents) {
+      if (doc.storeId && !(await getStoreAccess(principal, doc.storeId))) {
+        return NextResponse.json(
+          { error: `Store ${doc.storeId} not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (parsed.data.baselineId && !getEvalReport(parsed.data.baselineId)) {
+      return NextResponse.json(
+        { error: `Baseline report ${parsed.data.baselineId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const report = await runEvaluation(dataset.data, parsed.data.config, {
+      baselineId: parsed.data.baselineId,
+    });
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    // A validation failure anywhere in the run is bad input, not a server error
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid evaluation run", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Evaluation error:", error);
+    const message = error instanceof Error ? error.message : "Evaluation failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
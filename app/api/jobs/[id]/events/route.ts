@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIngestionJob, isTerminalStatus, toJobResponse } from "@/src/ingestionJobs";
+import { authenticate } from "@/src/auth";
+import { ownsResource } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// How often the job file is checked for changes
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Stream an ingestion job's status as NDJSON: one line per change, ending
+ * once the job is done, failed or cancelled
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const job = getIngestionJob(id);
+  if (!job || !ownsResource(principal, job.workspaceId)) {
+    return NextResponse.json(
+      { error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastUpdate = "";
+      try {
+        while (!closed && !request.signal.aborted) {
+          const job = getIngestionJob(id);
+          if (!job) break;
+
+          if (job.updatedAt !== lastUpdate) {
+            lastUpdate = job.updatedAt;
+            controller.enqueue(encoder.encode(JSON.stringify(toJobResponse(job)) + "\n"));
+          }
+          if (isTerminalStatus(job.status)) break;
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error("Job event stream error:", error);
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelIngestionJob, getIngestionJob, toJobResponse } from "@/src/ingestionJobs";
+import { authenticate } from "@/src/auth";
+import { ownsResource } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Get the status and progress of an ingestion job
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const job = getIngestionJob(id);
+
+  if (!job || !ownsResource(principal, job.workspaceId)) {
+    return NextResponse.json(
+      { error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, job: toJobResponse(job) });
+}
+
+/**
+ * Cancel an ingestion job that has not finished yet
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const existing = getIngestionJob(id);
+  if (!existing || !ownsResource(principal, existing.workspaceId)) {
+    return NextResponse.json(
+      { error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const job = cancelIngestionJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, job: toJobResponse(job) });
+}
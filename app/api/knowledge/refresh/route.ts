@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDefaultKnowledgeManifest, syncDefaultKnowledge } from "@/src/defaultKnowledge";
+import { authenticate, isAdmin } from "@/src/auth";
+import { consumeUsage, estimateTokens, getClientId, recordUsage } from "@/src/rateLimits";
+import { loadVectorStoreMetadata } from "@/src/vectorStore";
+export const runtime = "nodejs";
+
+/**
+ * Re-scan src/data now: index new files, re-index changed ones and remove
+ * stores of deleted ones. Administrators only (ADMIN_EMAILS); the embedded
+ * text counts towards the caller's embedded-token quota.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (!isAdmin(principal)) {
+      return NextResponse.json(
+        { error: "Only administrators can refresh the default knowledge base" },
+        { status: 403 }
+      );
+    }
+
+    const clientId = getClientId(request, principal);
+    const exceeded = await consumeUsage(clientId, { embeddedTokens: 0 });
+    if (exceeded) {
+      return NextResponse.json(
+        { error: exceeded.message, limit: exceeded.limit, retryAfter: exceeded.retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(exceeded.retryAfterSeconds) } }
+      );
+    }
+
+    const result = await syncDefaultKnowledge();
+    const manifest = await getDefaultKnowledgeManifest();
+
+    const embeddedLength = [...result.added, ...result.updated].reduce((sum, fileName) => {
+      const storeId = manifest.files[fileName]?.storeId;
+      const textLength = storeId ? (loadVectorStoreMetadata(storeId)?.textLength as number | undefined) : undefined;
+      return sum + (textLength ?? 0);
+    }, 0);
+    await recordUsage(clientId, "embeddedTokens", estimateTokens(embeddedLength));
+
+    return NextResponse.json({ success: true, ...result, manifest });
+  } catch (error) {
+    console.error("Knowledge refresh error:", error);
+    const message = error instanceof Error ? error.message : "Failed to refresh knowledge base";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
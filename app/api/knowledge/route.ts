@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDefaultKnowledgeManifest } from "@/src/defaultKnowledge";
+import { authenticate } from "@/src/auth";
+export const runtime = "nodejs";
+
+/**
+ * Inspect the default knowledge base manifest: which files in src/data are
+ * indexed, their content hashes and store IDs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await authenticate(request))) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const manifest = await getDefaultKnowledgeManifest();
+    return NextResponse.json({ success: true, manifest });
+  } catch (error) {
+    console.error("Knowledge manifest error:", error);
+    return NextResponse.json(
+      { error: "Failed to read knowledge manifest" },
+      { status: 500 }
+    );
+  }
+}
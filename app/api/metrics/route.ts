@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { renderMetrics } from "@/src/metrics";
+export const runtime = "nodejs";
+
+/**
+ * Prometheus metrics for this server process. Scrape with an API key
+ * (`authorization: Bearer rk_...` in the scrape config).
+ */
+export async function GET(request: NextRequest) {
+  if (!(await authenticate(request))) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
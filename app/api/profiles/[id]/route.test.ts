@@ -0,0 +1,86 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// Profiles and accounts are written under the working directory, so the
+// routes run in a scratch directory
+const repoDir = process.cwd();
+let workDir: string;
+let route: typeof import("./route");
+let adminCookie: string;
+let memberCookie: string;
+
+const profile = { name: "HR", persona: "You answer questions about HR policy." };
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rag-profiles-"));
+  process.chdir(workDir);
+  process.env.ADMIN_EMAILS = "admin@example.com";
+
+  const auth = await import("@/src/auth");
+  const signIn = async (email: string) => {
+    const user = await auth.registerUser({ email, password: "correct horse" });
+    return `${auth.SESSION_COOKIE}=${auth.createSession(user!.id)}`;
+  };
+  adminCookie = await signIn("admin@example.com");
+  memberCookie = await signIn("member@example.com");
+
+  const profiles = await import("@/src/profiles");
+  profiles.createProfile(profiles.ProfileInputSchema.parse(profile), "hr");
+  route = await import("./route");
+});
+
+afterAll(() => {
+  process.chdir(repoDir);
+  delete process.env.ADMIN_EMAILS;
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+function request(method: string, cookie: string, body?: unknown) {
+  return new NextRequest("http://localhost/api/profiles/hr", {
+    method,
+    headers: { cookie },
+    body: body === undefined || typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe("PATCH /api/profiles/[id]", () => {
+  it("lets only administrators change a profile", async () => {
+    const denied = await route.PATCH(request("PATCH", memberCookie, { name: "Finance" }), params("hr"));
+    expect(denied.status).toBe(403);
+
+    const updated = await route.PATCH(request("PATCH", adminCookie, { name: "People" }), params("hr"));
+    expect(updated.status).toBe(200);
+    expect((await updated.json()).profile.name).toBe("People");
+  });
+
+  it("rejects a body that is not valid JSON", async () => {
+    const response = await route.PATCH(request("PATCH", adminCookie, "{ name: "), params("hr"));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid profile update: request body is not valid JSON");
+  });
+
+  it("keeps the built-in default profile read-only", async () => {
+    const response = await route.PATCH(request("PATCH", adminCookie, { name: "Mine" }), params("default"));
+    expect(response.status).toBe(403);
+    expect((await route.GET(request("GET", adminCookie), params("default"))).status).toBe(200);
+  });
+});
+
+describe("DELETE /api/profiles/[id]", () => {
+  it("lets only administrators delete a profile, never the built-in one", async () => {
+    expect((await route.DELETE(request("DELETE", memberCookie), params("hr"))).status).toBe(403);
+    expect((await route.DELETE(request("DELETE", adminCookie), params("default"))).status).toBe(403);
+
+    expect((await route.DELETE(request("DELETE", adminCookie), params("hr"))).status).toBe(200);
+    expect((await route.GET(request("GET", adminCookie), params("hr"))).status).toBe(404);
+  });
+
+  it("requires authentication", async () => {
+    expect((await route.DELETE(request("DELETE", ""), params("hr"))).status).toBe(401);
+  });
+});
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteProfile,
+  getProfile,
+  isBuiltInProfile,
+  ProfileInputSchema,
+  updateProfile,
+} from "@/src/profiles";
+import { authenticate, isAdmin, type Principal } from "@/src/auth";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Why the principal may not change profile `id`, or null if it may.
+ * Profiles are shared by every workspace, so only administrators
+ * (ADMIN_EMAILS) change them, and the built-in default is read-only.
+ */
+function mutationDenied(principal: Principal, id: string): NextResponse | null {
+  if (!isAdmin(principal)) {
+    return NextResponse.json(
+      { error: "Only administrators can change assistant profiles" },
+      { status: 403 }
+    );
+  }
+  if (isBuiltInProfile(id)) {
+    return NextResponse.json(
+      { error: `The built-in ${id} profile is read-only` },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+/**
+ * Get a single assistant profile
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!(await authenticate(request))) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const profile = getProfile(id);
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: `Profile ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, profile });
+}
+
+/**
+ * Update fields of an assistant profile
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const denied = mutationDenied(principal, id);
+    if (denied) return denied;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid profile update: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = ProfileInputSchema.partial().safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid profile", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const profile = updateProfile(id, parsed.data);
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Profile ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error("Profiles API error:", error);
+    const message = error instanceof Error ? error.message : "Failed to update profile";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete an assistant profile
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const denied = mutationDenied(principal, id);
+  if (denied) return denied;
+
+  if (!deleteProfile(id)) {
+    return NextResponse.json(
+      { error: `Profile ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
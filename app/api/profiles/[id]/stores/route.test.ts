@@ -0,0 +1,94 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// Stores and accounts are written under the working directory, so the route
+// runs in a scratch directory
+const repoDir = process.cwd();
+let workDir: string;
+let route: typeof import("./route");
+let loadVectorStoreMetadata: typeof import("@/src/vectorStore").loadVectorStoreMetadata;
+let ownerCookie: string;
+let otherCookie: string;
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rag-store-profiles-"));
+  process.chdir(workDir);
+
+  const auth = await import("@/src/auth");
+  const { listWorkspacesForUser } = await import("@/src/workspaces");
+  const signIn = async (email: string) => {
+    const user = await auth.registerUser({ email, password: "correct horse" });
+    return {
+      cookie: `${auth.SESSION_COOKIE}=${auth.createSession(user!.id)}`,
+      workspaceId: listWorkspacesForUser(user!.id)[0].id,
+    };
+  };
+  const owner = await signIn("owner@example.com");
+  ownerCookie = owner.cookie;
+  otherCookie = (await signIn("other@example.com")).cookie;
+
+  const { packEmbeddings, writeStoreFiles } = await import("@/src/vectorStoreFormat");
+  const storePath = path.join(workDir, ".vector_stores", "store-1");
+  fs.mkdirSync(storePath, { recursive: true });
+  await writeStoreFiles(storePath, { ...packEmbeddings([[1, 0]]), chunks: [{ text: "Leave", metadata: {} }] });
+  fs.writeFileSync(path.join(storePath, "metadata.json"), JSON.stringify({ workspaceId: owner.workspaceId }));
+
+  ({ loadVectorStoreMetadata } = await import("@/src/vectorStore"));
+  route = await import("./route");
+});
+
+afterAll(() => {
+  process.chdir(repoDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+function request(cookie: string, storeId: string) {
+  return new NextRequest("http://localhost/api/profiles/default/stores", {
+    method: "POST",
+    headers: { cookie },
+    body: JSON.stringify({ storeId }),
+  });
+}
+
+const params = { params: Promise.resolve({ id: "default" }) };
+
+describe("POST /api/profiles/[id]/stores", () => {
+  it("requires authentication", async () => {
+    expect((await route.POST(request("", "store-1"), params)).status).toBe(401);
+  });
+
+  it("does not attach profiles to another workspace's store", async () => {
+    const response = await route.POST(request(otherCookie, "store-1"), params);
+    expect(response.status).toBe(404);
+    expect(loadVectorStoreMetadata("store-1")?.profileId).toBeUndefined();
+  });
+
+  it("attaches and detaches a profile on the owner's store", async () => {
+    expect((await route.POST(request(ownerCookie, "store-1"), params)).status).toBe(200);
+    expect(loadVectorStoreMetadata("store-1")?.profileId).toBe("default");
+
+    expect((await route.DELETE(request(ownerCookie, "store-1"), params)).status).toBe(200);
+    expect(loadVectorStoreMetadata("store-1")?.profileId).toBeUndefined();
+  });
+
+  it("treats a missing or invalid store as not found", async () => {
+    expect((await route.POST(request(ownerCookie, "store-2"), params)).status).toBe(404);
+    expect((await route.POST(request(ownerCookie, "../store-1"), params)).status).toBe(404);
+  });
+
+  it("rejects a body that is not valid JSON", async () => {
+    const response = await route.POST(
+      new NextRequest("http://localhost/api/profiles/default/stores", {
+        method: "POST",
+        headers: { cookie: ownerCookie },
+        body: "{ storeId: ",
+      }),
+      params
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid store attachment: request body is not valid JSON");
+  });
+});
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProfile } from "@/src/profiles";
+import { getVectorStoreSummary, updateVectorStoreMetadata } from "@/src/vectorStore";
+import { authenticate } from "@/src/auth";
+import { getStoreAccess } from "@/src/workspaces";
+import { redactError, redactErrorMessage } from "@/src/redaction";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Attach a profile to a store the caller's workspace owns, so chats on that
+ * store use it by default
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  return setStoreProfile(request, params, "attach");
+}
+
+/**
+ * Detach a profile from a store
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  return setStoreProfile(request, params, "detach");
+}
+
+async function setStoreProfile(
+  request: NextRequest,
+  params: RouteContext["params"],
+  action: "attach" | "detach"
+) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid store attachment: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    const storeId = body?.storeId;
+
+    if (!getProfile(id)) {
+      return NextResponse.json(
+        { error: `Profile ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    if (typeof storeId !== "string") {
+      return NextResponse.json(
+        { error: "storeId must name an existing store" },
+        { status: 400 }
+      );
+    }
+
+    const store = await getVectorStoreSummary(storeId);
+    if (!store || (await getStoreAccess(principal, storeId)) !== "owner") {
+      return NextResponse.json(
+        { error: `Store ${storeId} not found` },
+        { status: 404 }
+      );
+    }
+
+    let profileId = store.metadata.profileId;
+    if (action === "attach") {
+      profileId = id;
+    } else if (profileId === id) {
+      profileId = undefined;
+    }
+    updateVectorStoreMetadata(storeId, { profileId });
+
+    return NextResponse.json({ success: true, storeId, profileId: profileId ?? null });
+  } catch (error) {
+    console.error("Profiles API error:", redactError(error));
+    const message = error instanceof Error ? redactErrorMessage(error) : "Failed to update store profile";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
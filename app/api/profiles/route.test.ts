@@ -0,0 +1,61 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// Profiles and accounts are written under the working directory, so the
+// routes run in a scratch directory
+const repoDir = process.cwd();
+let workDir: string;
+let route: typeof import("./route");
+let adminCookie: string;
+let memberCookie: string;
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rag-profiles-"));
+  process.chdir(workDir);
+  process.env.ADMIN_EMAILS = "admin@example.com";
+
+  const auth = await import("@/src/auth");
+  const signIn = async (email: string) => {
+    const user = await auth.registerUser({ email, password: "correct horse" });
+    return `${auth.SESSION_COOKIE}=${auth.createSession(user!.id)}`;
+  };
+  adminCookie = await signIn("admin@example.com");
+  memberCookie = await signIn("member@example.com");
+
+  route = await import("./route");
+});
+
+afterAll(() => {
+  process.chdir(repoDir);
+  delete process.env.ADMIN_EMAILS;
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+function post(cookie: string, body: string) {
+  return route.POST(
+    new NextRequest("http://localhost/api/profiles", { method: "POST", headers: { cookie }, body })
+  );
+}
+
+describe("POST /api/profiles", () => {
+  const profile = JSON.stringify({ id: "hr", name: "HR", persona: "You answer questions about HR policy." });
+
+  it("lets only administrators create profiles", async () => {
+    expect((await post(memberCookie, profile)).status).toBe(403);
+    expect((await post(adminCookie, profile)).status).toBe(201);
+  });
+
+  it("does not replace the built-in default profile", async () => {
+    const response = await post(adminCookie, JSON.stringify({ id: "default", name: "Mine", persona: "Anything." }));
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects a body that is not valid JSON", async () => {
+    const response = await post(adminCookie, "{ name: ");
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid profile: request body is not valid JSON");
+  });
+});
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createProfile, listProfiles, ProfileInputSchema } from "@/src/profiles";
+import { authenticate, isAdmin } from "@/src/auth";
+export const runtime = "nodejs";
+
+/**
+ * List assistant profiles
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await authenticate(request))) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const profiles = listProfiles();
+    return NextResponse.json({
+      success: true,
+      profiles,
+      count: profiles.length,
+    });
+  } catch (error) {
+    console.error("Profiles API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch profiles" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create an assistant profile. Administrators only (ADMIN_EMAILS), since
+ * profiles are shared by every workspace.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (!isAdmin(principal)) {
+      return NextResponse.json(
+        { error: "Only administrators can change assistant profiles" },
+        { status: 403 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid profile: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = ProfileInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid profile", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (body.id !== undefined && typeof body.id !== "string") {
+      return NextResponse.json(
+        { error: "Invalid id: must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const profile = createProfile(parsed.data, body.id);
+    return NextResponse.json({ success: true, profile }, { status: 201 });
+  } catch (error) {
+    console.error("Profiles API error:", error);
+    const message = error instanceof Error ? error.message : "Failed to create profile";
+    return NextResponse.json(
+      { error: message },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVectorStoreChunks } from "@/src/vectorStore";
+import { authenticate } from "@/src/auth";
+import { getStoreAccess } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; index: string }> };
+
+/**
+ * Get a single chunk by its index
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id, index } = await params;
+  const chunkIndex = Number(index);
+
+  if (!Number.isInteger(chunkIndex) || chunkIndex < 0) {
+    return NextResponse.json(
+      { error: "Chunk index must be a non-negative integer" },
+      { status: 400 }
+    );
+  }
+
+  const page = (await getStoreAccess(principal, id)) ? await getVectorStoreChunks(id, chunkIndex, 1) : null;
+  if (!page) {
+    return NextResponse.json(
+      { error: `Store ${id} not found` },
+      { status: 404 }
+    );
+  }
+  if (page.chunks.length === 0) {
+    return NextResponse.json(
+      { error: `Store ${id} has no chunk ${chunkIndex}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, storeId: id, chunk: page.chunks[0] });
+}
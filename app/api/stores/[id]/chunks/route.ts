@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVectorStoreChunks } from "@/src/vectorStore";
+import { authenticate } from "@/src/auth";
+import { getStoreAccess } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_LIMIT = 200;
+
+/**
+ * Page through a store's chunks (`?offset=0&limit=50`)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const offset = Math.max(0, Number(searchParams.get("offset")) || 0);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(searchParams.get("limit")) || 50));
+
+  const page = (await getStoreAccess(principal, id)) ? await getVectorStoreChunks(id, offset, limit) : null;
+  if (!page) {
+    return NextResponse.json(
+      { error: `Store ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, storeId: id, offset, limit, ...page });
+}
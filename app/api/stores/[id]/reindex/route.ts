@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import path from "path";
+import { getVectorStoreSourcePath, getVectorStoreSummary } from "@/src/vectorStore";
+import { createIngestionJob, toJobResponse } from "@/src/ingestionJobs";
+import { authenticate } from "@/src/auth";
+import { getStoreAccess } from "@/src/workspaces";
+import { consumeUsage, getClientId } from "@/src/rateLimits";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ReindexSchema = z
+  .object({
+    chunkSize: z.number().int().min(100).max(8000).optional(),
+    chunkOverlap: z.number().int().min(0).max(4000).optional(),
+    quantization: z.enum(["float32", "int8"]).optional(),
+  })
+  .refine(
+    ({ chunkSize = 1000, chunkOverlap = 200 }) => chunkOverlap < chunkSize,
+    { message: "chunkOverlap must be smaller than chunkSize" }
+  );
+
+/**
+ * Rebuild a store from its source document with new settings. Runs as an
+ * ingestion job; the current store keeps serving queries until it finishes.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.text();
+    let input: unknown;
+    try {
+      input = body ? JSON.parse(body) : {};
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid re-index settings: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = ReindexSchema.safeParse(input);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid re-index settings", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const store = await getVectorStoreSummary(id);
+    const access = await getStoreAccess(principal, id);
+    if (!store || !access) {
+      return NextResponse.json(
+        { error: `Store ${id} not found` },
+        { status: 404 }
+      );
+    }
+    if (access !== "owner") {
+      return NextResponse.json(
+        { error: `Store ${id} is shared read-only` },
+        { status: 403 }
+      );
+    }
+
+    const sourcePath = getVectorStoreSourcePath(id);
+    if (!sourcePath) {
+      return NextResponse.json(
+        { error: `Source document for store ${id} is no longer available` },
+        { status: 409 }
+      );
+    }
+
+    // Re-embedding the document counts towards the daily embedded-token quota
+    const clientId = getClientId(request, principal);
+    const exceeded = await consumeUsage(clientId, { embeddedTokens: 0 });
+    if (exceeded) {
+      return NextResponse.json(
+        { error: exceeded.message, limit: exceeded.limit, retryAfter: exceeded.retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(exceeded.retryAfterSeconds) } }
+      );
+    }
+
+    const job = createIngestionJob({
+      filePath: sourcePath,
+      fileName: path.basename(sourcePath),
+      storeId: id,
+      workspaceId: store.metadata.workspaceId as string | undefined,
+      settings: parsed.data,
+      reindex: true,
+      clientId,
+    });
+
+    return NextResponse.json({ success: true, job: toJobResponse(job) }, { status: 202 });
+  } catch (error) {
+    console.error("Re-index error:", error);
+    const message = error instanceof Error ? error.message : "Failed to re-index store";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Stores are read from the working directory, so the route runs in a
+// scratch directory
+const repoDir = process.cwd();
+let workDir: string;
+let route: typeof import("./route");
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rag-stores-"));
+  process.chdir(workDir);
+  vi.stubEnv("AUTH_DISABLED", "true");
+  route = await import("./route");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  process.chdir(repoDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe("PATCH /api/stores/[id]", () => {
+  it("rejects a body that is not valid JSON", async () => {
+    const response = await route.PATCH(
+      new NextRequest("http://localhost/api/stores/store-1", { method: "PATCH", body: "{ tags: " }),
+      { params: Promise.resolve({ id: "store-1" }) }
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid store update: request body is not valid JSON");
+  });
+});
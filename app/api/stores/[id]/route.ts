@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  deleteVectorStore,
+  getVectorStoreSummary,
+  updateVectorStoreMetadata,
+} from "@/src/vectorStore";
+import { authenticate } from "@/src/auth";
+import { getStoreAccess } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const StoreUpdateSchema = z
+  .object({
+    displayName: z.string().trim().min(1).max(200),
+    tags: z.array(z.string().trim().min(1).max(50)).max(20),
+  })
+  .partial();
+
+/**
+ * Get a store's metadata
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const store = await getVectorStoreSummary(id);
+  const access = await getStoreAccess(principal, id);
+
+  if (!store || !access) {
+    return NextResponse.json(
+      { error: `Store ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, store: { ...store, access } });
+}
+
+/**
+ * Rename or retag a store
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    let input: unknown;
+    try {
+      input = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid store update: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = StoreUpdateSchema.safeParse(input);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid store update", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const access = await getStoreAccess(principal, id);
+    if (!access || !(await getVectorStoreSummary(id))) {
+      return NextResponse.json(
+        { error: `Store ${id} not found` },
+        { status: 404 }
+      );
+    }
+    if (access !== "owner") {
+      return NextResponse.json(
+        { error: `Store ${id} is shared read-only` },
+        { status: 403 }
+      );
+    }
+
+    updateVectorStoreMetadata(id, parsed.data);
+    return NextResponse.json({ success: true, store: await getVectorStoreSummary(id) });
+  } catch (error) {
+    console.error("Update store error:", error);
+    const message = error instanceof Error ? error.message : "Failed to update store";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * Delete a store and its uploaded source document
+ * (`?keepSource=true` leaves the uploaded file in place)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const access = await getStoreAccess(principal, id);
+
+  if (!access || !(await getVectorStoreSummary(id))) {
+    return NextResponse.json(
+      { error: `Store ${id} not found` },
+      { status: 404 }
+    );
+  }
+  if (access !== "owner") {
+    return NextResponse.json(
+      { error: `Store ${id} is shared read-only` },
+      { status: 403 }
+    );
+  }
+
+  const keepSource = request.nextUrl.searchParams.get("keepSource") === "true";
+  deleteVectorStore(id, { removeSource: !keepSource });
+  return NextResponse.json({ success: true, storeId: id });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { getVectorStoreSummary } from "@/src/vectorStore";
+import { getStoreAccess, unshareStore } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; workspaceId: string }> };
+
+/**
+ * Stop sharing a store with a workspace (owner only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id, workspaceId } = await params;
+  const access = await getStoreAccess(principal, id);
+  if (!access || !(await getVectorStoreSummary(id))) {
+    return NextResponse.json(
+      { error: `Store ${id} not found` },
+      { status: 404 }
+    );
+  }
+  if (access !== "owner") {
+    return NextResponse.json(
+      { error: `Store ${id} is shared read-only` },
+      { status: 403 }
+    );
+  }
+
+  const sharedWith = await unshareStore(id, workspaceId);
+  return NextResponse.json({ success: true, storeId: id, sharedWith });
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate } from "@/src/auth";
+import { getVectorStoreSummary } from "@/src/vectorStore";
+import { getStoreAccess, getWorkspace, shareStore } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ShareInputSchema = z.object({ workspaceId: z.string().min(1) });
+
+/**
+ * List the workspaces a store is shared with (owner only)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const store = await getVectorStoreSummary(id);
+  const access = await getStoreAccess(principal, id);
+  if (!store || !access) {
+    return NextResponse.json(
+      { error: `Store ${id} not found` },
+      { status: 404 }
+    );
+  }
+  if (access !== "owner") {
+    return NextResponse.json(
+      { error: `Store ${id} is shared read-only` },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    storeId: id,
+    sharedWith: (store.metadata.sharedWith as string[] | undefined) ?? [],
+  });
+}
+
+/**
+ * Share a store read-only with another workspace (owner only)
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await getStoreAccess(principal, id);
+    if (!access || !(await getVectorStoreSummary(id))) {
+      return NextResponse.json(
+        { error: `Store ${id} not found` },
+        { status: 404 }
+      );
+    }
+    if (access !== "owner") {
+      return NextResponse.json(
+        { error: `Store ${id} is shared read-only` },
+        { status: 403 }
+      );
+    }
+
+    const parsed = ShareInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid share", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { workspaceId } = parsed.data;
+    if (!getWorkspace(workspaceId)) {
+      return NextResponse.json(
+        { error: `Workspace ${workspaceId} not found` },
+        { status: 404 }
+      );
+    }
+    if (workspaceId === principal.workspaceId) {
+      return NextResponse.json(
+        { error: "A store cannot be shared with the workspace that owns it" },
+        { status: 400 }
+      );
+    }
+
+    const sharedWith = await shareStore(id, workspaceId);
+    return NextResponse.json({ success: true, storeId: id, sharedWith });
+  } catch (error) {
+    console.error("Share store error:", error);
+    const message = error instanceof Error ? error.message : "Failed to share store";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
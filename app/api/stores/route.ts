@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { listAccessibleStores } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+/**
+ * List the vector stores the caller can access with their metadata and the
+ * caller's access ("owner" or "read"), newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const stores = await listAccessibleStores(principal);
+    return NextResponse.json({ success: true, stores, count: stores.length });
+  } catch (error) {
+    console.error("Fetch stores error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stores" },
+      { status: 500 }
+    );
+  }
+}
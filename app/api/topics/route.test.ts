@@ -0,0 +1,41 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Stores are read from the working directory, so the route runs in a
+// scratch directory
+const repoDir = process.cwd();
+let workDir: string;
+let route: typeof import("./route");
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rag-topics-"));
+  process.chdir(workDir);
+  vi.stubEnv("AUTH_DISABLED", "true");
+  vi.stubEnv("LLM_PROVIDER", "fake");
+  route = await import("./route");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  process.chdir(repoDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+function post(body: string) {
+  return route.POST(new NextRequest("http://localhost/api/topics", { method: "POST", body }));
+}
+
+describe("POST /api/topics", () => {
+  it("rejects a body that is not valid JSON", async () => {
+    const response = await post("{ storeId: ");
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid topics request: request body is not valid JSON");
+  });
+
+  it("requires a storeId", async () => {
+    expect((await post("null")).status).toBe(400);
+  });
+});
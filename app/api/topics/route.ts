@@ -1,12 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSuggestedTopics } from "@/src/agent";
+import { authenticate } from "@/src/auth";
+import { getStoreAccess } from "@/src/workspaces";
 // This route uses Node APIs (fs, LangChain) — force Node runtime
 export const runtime = "nodejs";
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { storeId } = body;
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid topics request: request body is not valid JSON" },
+        { status: 400 }
+      );
+    }
+    const storeId = body?.storeId;
 
     if (!storeId) {
       return NextResponse.json(
@@ -15,6 +30,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!(await getStoreAccess(principal, storeId))) {
+      return NextResponse.json(
+        { error: `Store ${storeId} not found` },
+        { status: 404 }
+      );
+    }
+
     const topics = await getSuggestedTopics(storeId);
 
     return NextResponse.json({
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { getTrace } from "@/src/tracing";
+import { ownsResource } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * A saved trace: retrieval scores, LLM calls, tokens and cost
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const trace = getTrace(id);
+  if (!trace || !ownsResource(principal, trace.workspaceId)) {
+    return NextResponse.json(
+      { error: `Trace ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, trace });
+}
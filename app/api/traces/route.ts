@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { isTracePersistenceEnabled, listTraces } from "@/src/tracing";
+export const runtime = "nodejs";
+
+const MAX_LIMIT = 200;
+
+/**
+ * Recent saved traces of the caller's workspace (TRACE_PERSIST=true), newest first
+ */
+export async function GET(request: NextRequest) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(request.nextUrl.searchParams.get("limit")) || 50));
+  const traces = listTraces({
+    workspaceId: principal.method === "none" ? undefined : principal.workspaceId,
+    limit,
+  });
+  return NextResponse.json({ success: true, persisted: isTracePersistenceEnabled(), traces });
+}
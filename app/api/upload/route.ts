@@ -2,83 +2,141 @@ import { NextRequest, NextResponse } from "next/server";
 // Force Node runtime for this route since it uses Node APIs (fs, pdf-parse, etc.)
 export const runtime = "nodejs";
 import { v4 as uuidv4 } from "uuid";
-import { createVectorStore, listVectorStores, saveVectorStoreMetadata } from "@/src/vectorStore";
+import { computeContentHash, findStoreByContentHash, UPLOAD_DIR } from "@/src/vectorStore";
+import { createIngestionJob, findActiveJobByContentHash } from "@/src/ingestionJobs";
+import { authenticate } from "@/src/auth";
+import { listAccessibleStores } from "@/src/workspaces";
+import { getDocumentFormat, SUPPORTED_EXTENSIONS } from "@/src/loaders";
+import { consumeUsage, getClientId } from "@/src/rateLimits";
+import { redactError, redactErrorMessage } from "@/src/redaction";
 import path from "path";
 import fs from "fs/promises";
 
 
 /**
- * Handle PDF file upload and create vector store using LangChain
- * Accepts FormData (PDF file upload)
+ * The client-supplied file name reduced to a plain name: no directories,
+ * path separators or control characters, so it cannot escape UPLOAD_DIR
+ */
+function toSafeFileName(name: string): string {
+  const baseName = name.split(/[\\/]/).pop() || "";
+  return baseName.replace(/[\x00-\x1f\x7f]/g, "").trim() || "document";
+}
+
+/**
+ * Handle document upload and queue a job to create its vector store
+ * Accepts FormData with a PDF, DOCX, HTML, Markdown or text file in "file"
+ * (the older "pdf" field is still accepted)
  */
 export async function POST(request: NextRequest) {
   try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    // Uploads belong to the caller's workspace (no owner when auth is disabled)
+    const workspaceId = principal.method === "none" ? undefined : principal.workspaceId;
     const contentType = request.headers.get("content-type") || "";
-    let fileName: string;
-    let pageCount: number = 0;
-    let textLength: number = 0;
-    let storeId: string = uuidv4();
+    const storeId: string = uuidv4();
 
     if (!contentType.includes("multipart/form-data")) {
       return NextResponse.json(
-        { error: "Only multipart/form-data is supported for PDF upload." },
+        { error: "Only multipart/form-data is supported for document upload." },
         { status: 400 }
       );
     }
 
-    // 1. Handle Multipart FormData with PDF file
+    // 1. Handle Multipart FormData with the document
     const formData = await request.formData();
-    const file = formData.get("pdf") as File;
+    const file = (formData.get("file") || formData.get("pdf")) as File | null;
 
-    if (!file) {
+    if (!file || typeof file === "string") {
       return NextResponse.json(
-        { error: "No PDF file provided" },
+        { error: "No document provided" },
         { status: 400 }
       );
     }
 
-    if (!file.name.toLowerCase().endsWith(".pdf")) {
+    if (!getDocumentFormat(file.name)) {
       return NextResponse.json(
-        { error: "File must be a PDF" },
+        { error: `Unsupported file type. Supported: ${SUPPORTED_EXTENSIONS.join(", ")}` },
         { status: 400 }
       );
     }
 
-    // Save PDF to disk (required for LangChain PDFLoader)
-    fileName = `${Date.now()}-${file.name}`;
-    const uploadDir = path.join(process.cwd(), "uploads");
-    await fs.mkdir(uploadDir, { recursive: true });
-    const filePath = path.join(uploadDir, fileName);
     const buffer = Buffer.from(await file.arrayBuffer());
-    await fs.writeFile(filePath, buffer);
+    const contentHash = computeContentHash(buffer);
 
-    // 3. Create vector store (this handles parsing, splitting and embeddings)
-    const result = await createVectorStore(filePath, storeId);
-    pageCount = result.pageCount || 1;
-    textLength = 0; // length is stored in metadata by createVectorStore
+    // 2. Identical file already indexed in this workspace with the current settings: reuse its store
+    const existing = await findStoreByContentHash(contentHash, { workspaceId });
+    if (existing) {
+      console.log(`♻️ Duplicate upload of ${file.name}, reusing store ${existing.storeId}`);
+      return NextResponse.json({
+        success: true,
+        duplicate: true,
+        storeId: existing.storeId,
+        fileName: existing.metadata.fileName,
+        pages: existing.metadata.pageCount,
+        format: existing.metadata.format,
+        status: "done",
+        message: "Document was already indexed; reusing the existing store",
+      });
+    }
 
-    // 4. Create vector store and add documents
-    // The vector store creation is now handled by createVectorStore
+    // ...or currently being indexed: follow that job instead of starting another
+    const activeJob = findActiveJobByContentHash(contentHash, { workspaceId });
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          success: true,
+          duplicate: true,
+          jobId: activeJob.id,
+          storeId: activeJob.storeId,
+          fileName: activeJob.fileName,
+          status: activeJob.status,
+          message: "Document is already being indexed",
+        },
+        { status: 202 }
+      );
+    }
 
-    // 5. Save metadata (custom logic, e.g. to file/db)
-    saveVectorStoreMetadata(storeId, {
-      fileName,
-      createdAt: new Date().toISOString(),
-      pageCount,
-      textLength,
-    });
+    // New documents spend embedding budget (duplicates above do not): count
+    // them, and refuse them once the client's embedded-token quota is used up
+    const clientId = getClientId(request, principal);
+    const exceeded = await consumeUsage(clientId, { uploads: 1, uploadBytes: file.size, embeddedTokens: 0 });
+    if (exceeded) {
+      return NextResponse.json(
+        { error: exceeded.message, limit: exceeded.limit, retryAfter: exceeded.retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(exceeded.retryAfterSeconds) } }
+      );
+    }
 
-    return NextResponse.json({
-      success: true,
-      storeId,
-      fileName,
-      pages: pageCount,
-      message: "PDF processed and indexed with LangChain successfully",
-    });
+    // Save the document to disk; loaders read from the uploaded file
+    const fileName = `${Date.now()}-${toSafeFileName(file.name)}`;
+    await fs.mkdir(UPLOAD_DIR, { recursive: true });
+    const filePath = path.join(UPLOAD_DIR, fileName);
+    await fs.writeFile(filePath, buffer);
+
+    // 3. Parsing, splitting and embedding run as a background job;
+    // poll /api/jobs/[id] or stream /api/jobs/[id]/events for progress
+    const job = createIngestionJob({ filePath, fileName, storeId, workspaceId, contentHash, clientId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        duplicate: false,
+        jobId: job.id,
+        storeId,
+        fileName,
+        status: job.status,
+        message: "Document queued for indexing",
+      },
+      { status: 202 }
+    );
 
   } catch (error) {
-    console.error("Upload error:", error);
-    const message = error instanceof Error ? error.message : "Upload failed";
+    console.error("Upload error:", redactError(error));
+    const message = error instanceof Error ? redactErrorMessage(error) : "Upload failed";
     return NextResponse.json(
       { error: message },
       { status: 500 }
@@ -87,11 +145,16 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Get list of uploaded PDFs
+ * Get list of uploaded documents the caller can access
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const stores = listVectorStores();
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const stores = (await listAccessibleStores(principal)).map((store) => store.storeId);
     return NextResponse.json({
       success: true,
       stores,
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/src/auth";
+import { getClientId, getUsage, isRateLimitingEnabled } from "@/src/rateLimits";
+export const runtime = "nodejs";
+
+/**
+ * The caller's usage against each rate limit and daily quota
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      enabled: isRateLimitingEnabled(),
+      limits: isRateLimitingEnabled() ? await getUsage(getClientId(request, principal)) : [],
+    });
+  } catch (error) {
+    console.error("Usage error:", error);
+    return NextResponse.json({ error: "Failed to load usage" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, revokeApiKey } from "@/src/auth";
+import { isWorkspaceMember } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; keyId: string }> };
+
+/**
+ * Revoke one of the workspace's API keys
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id, keyId } = await params;
+  if (!principal.userId || !isWorkspaceMember(id, principal.userId)) {
+    return NextResponse.json(
+      { error: `Workspace ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  if (!revokeApiKey(id, keyId)) {
+    return NextResponse.json(
+      { error: `API key ${keyId} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, keyId });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate, createApiKey, listApiKeys } from "@/src/auth";
+import { isWorkspaceMember } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ApiKeyInputSchema = z.object({ name: z.string().trim().min(1).max(100) });
+
+/**
+ * List a workspace's API keys (prefixes only)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!principal.userId || !isWorkspaceMember(id, principal.userId)) {
+    return NextResponse.json(
+      { error: `Workspace ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const keys = listApiKeys(id);
+  return NextResponse.json({ success: true, keys, count: keys.length });
+}
+
+/**
+ * Create an API key for the workspace. The key is only shown in this response.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!principal.userId || !isWorkspaceMember(id, principal.userId)) {
+      return NextResponse.json(
+        { error: `Workspace ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const parsed = ApiKeyInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid API key", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { key, apiKey } = createApiKey(id, parsed.data.name, principal.userId);
+    return NextResponse.json({ success: true, key, apiKey }, { status: 201 });
+  } catch (error) {
+    console.error("Create API key error:", error);
+    const message = error instanceof Error ? error.message : "Failed to create API key";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate, findUserByEmail, getUser, toUserResponse } from "@/src/auth";
+import { addWorkspaceMember, getWorkspace } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MemberInputSchema = z.object({ email: z.string().trim().toLowerCase().email() });
+
+/**
+ * List a workspace's members
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const workspace = getWorkspace(id);
+  if (!workspace || !principal.userId || !workspace.memberIds.includes(principal.userId)) {
+    return NextResponse.json(
+      { error: `Workspace ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const members = workspace.memberIds
+    .map((userId) => getUser(userId))
+    .filter((user) => user !== null)
+    .map((user) => ({ ...toUserResponse(user), owner: user.id === workspace.ownerId }));
+  return NextResponse.json({ success: true, members, count: members.length });
+}
+
+/**
+ * Add a registered user to the workspace (owner only)
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const workspace = getWorkspace(id);
+    if (!workspace || !principal.userId || !workspace.memberIds.includes(principal.userId)) {
+      return NextResponse.json(
+        { error: `Workspace ${id} not found` },
+        { status: 404 }
+      );
+    }
+    if (workspace.ownerId !== principal.userId) {
+      return NextResponse.json(
+        { error: "Only the workspace owner can add members" },
+        { status: 403 }
+      );
+    }
+
+    const parsed = MemberInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid member", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const user = findUserByEmail(parsed.data.email);
+    if (!user) {
+      return NextResponse.json(
+        { error: `No user registered with ${parsed.data.email}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, workspace: addWorkspaceMember(id, user.id) });
+  } catch (error) {
+    console.error("Add member error:", error);
+    const message = error instanceof Error ? error.message : "Failed to add member";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
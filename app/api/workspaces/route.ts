@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticate } from "@/src/auth";
+import { createWorkspace, listWorkspacesForUser } from "@/src/workspaces";
+export const runtime = "nodejs";
+
+const WorkspaceInputSchema = z.object({ name: z.string().trim().min(1).max(100) });
+
+/**
+ * List the signed-in user's workspaces
+ */
+export async function GET(request: NextRequest) {
+  const principal = await authenticate(request);
+  if (!principal) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!principal.userId) {
+    return NextResponse.json(
+      { error: "Workspaces are managed by signed-in users" },
+      { status: 403 }
+    );
+  }
+
+  const workspaces = listWorkspacesForUser(principal.userId);
+  return NextResponse.json({ success: true, workspaces, count: workspaces.length });
+}
+
+/**
+ * Create a workspace owned by the signed-in user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await authenticate(request);
+    if (!principal) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (!principal.userId) {
+      return NextResponse.json(
+        { error: "Workspaces are managed by signed-in users" },
+        { status: 403 }
+      );
+    }
+
+    const parsed = WorkspaceInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid workspace", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const workspace = createWorkspace(parsed.data.name, principal.userId);
+    return NextResponse.json({ success: true, workspace }, { status: 201 });
+  } catch (error) {
+    console.error("Create workspace error:", error);
+    const message = error instanceof Error ? error.message : "Failed to create workspace";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
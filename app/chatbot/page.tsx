@@ -1,12 +1,56 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import PDFUploader from "@/app/components/PDFUploader";
+import { useRouter } from "next/navigation";
+import DocumentUploader from "@/app/components/DocumentUploader";
+import ConversationList from "@/app/components/ConversationList";
 
 interface Citation {
   text: string;
   source: string;
   chunkIndex: number;
+  pageNumber?: number;
+  pageEnd?: number;
+  section?: string;
+  fileName?: string;
+  storeId?: string;
+  verification?: {
+    status: "verified" | "approximate" | "unverified";
+    score: number;
+  };
+}
+
+type ChatStreamEvent =
+  | { type: "retrieval"; query: string; documents: Array<{ source: string; snippet: string }> }
+  | { type: "token"; content: string }
+  | {
+      type: "final";
+      answer: string;
+      citations: Citation[];
+      confidence: "high" | "medium" | "low";
+      validation: AnswerValidation;
+      conversationId?: string;
+      // Id of the saved answer within the conversation
+      messageId?: string;
+    }
+  | { type: "error"; error: string };
+
+interface AnswerValidation {
+  status: "valid" | "repaired" | "failed" | "skipped";
+  attempts: number;
+  errors?: string[];
+}
+
+interface AssistantProfile {
+  id: string;
+  name: string;
+}
+
+interface Account {
+  method: "session" | "api-key" | "none";
+  user: { email: string; name: string } | null;
+  workspaceId: string;
+  workspaces: Array<{ id: string; name: string }>;
 }
 
 interface Message {
@@ -15,16 +59,26 @@ interface Message {
   content: string;
   citations?: Citation[];
   confidence?: "high" | "medium" | "low";
+  validation?: AnswerValidation;
   timestamp: Date;
 }
 
+// Messages as saved server-side, with ISO timestamps
+type SavedMessage = Omit<Message, "timestamp"> & { timestamp: string };
+
 export default function ChatbotPage() {
+  const router = useRouter();
+  const [account, setAccount] = useState<Account | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentStoreId, setCurrentStoreId] = useState<string>("");
+  const [selectedStoreIds, setSelectedStoreIds] = useState<string[]>([]);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<AssistantProfile[]>([]);
+  const [profileId, setProfileId] = useState<string>("");
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationsVersion, setConversationsVersion] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when new messages arrive
@@ -32,6 +86,45 @@ export default function ChatbotPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Find out who is signed in; without a session, go to the sign-in page
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((response) => {
+        if (response.status === 401) {
+          router.push("/login");
+          return null;
+        }
+        return response.ok ? response.json() : null;
+      })
+      .then((data) => data && setAccount(data))
+      .catch((err) => console.error("Failed to load account:", err));
+  }, [router]);
+
+  const switchWorkspace = async (workspaceId: string) => {
+    const response = await fetch("/api/auth/workspace", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ workspaceId }),
+    });
+    if (response.ok) {
+      // Stores and jobs belong to the workspace: reload everything
+      window.location.reload();
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    router.push("/login");
+  };
+
+  // Load assistant profiles for the selector
+  useEffect(() => {
+    fetch("/api/profiles")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setProfiles(data?.profiles || []))
+      .catch((err) => console.error("Failed to load profiles:", err));
+  }, []);
+
   // Handle suggested topics
   useEffect(() => {
     const handleSuggestedTopic = (event: Event) => {
@@ -60,6 +153,8 @@ export default function ChatbotPage() {
     setIsLoading(true);
     setError(null);
 
+    const assistantId = (Date.now() + 1).toString();
+
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
@@ -68,28 +163,87 @@ export default function ChatbotPage() {
         },
         body: JSON.stringify({
           input,
-          storeId: currentStoreId || undefined,
+          storeIds: selectedStoreIds,
+          profileId: profileId || undefined,
+          // Saved conversations carry their own history
+          ...(conversationId
+            ? { conversationId }
+            : { history: messages.map(({ role, content }) => ({ role, content })) }),
+          stream: true,
         }),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json();
         throw new Error(errorData.error || "Failed to get response");
       }
 
-      const data = await response.json();
+      // Update the streaming assistant message, creating it on first use
+      const updateAssistant = (update: (message: Message) => Message) => {
+        setMessages((prev) => {
+          const existing = prev.find((message) => message.id === assistantId);
+          if (!existing) {
+            return [
+              ...prev,
+              update({
+                id: assistantId,
+                role: "assistant",
+                content: "",
+                timestamp: new Date(),
+              }),
+            ];
+          }
+          return prev.map((message) =>
+            message.id === assistantId ? update(message) : message
+          );
+        });
+      };
 
-      // Add assistant message with citations
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: data.answer || data.message || "No response",
-        citations: data.citations || [],
-        confidence: data.confidence,
-        timestamp: new Date(),
+      const handleEvent = (event: ChatStreamEvent) => {
+        switch (event.type) {
+          case "token":
+            updateAssistant((message) => ({
+              ...message,
+              content: message.content + event.content,
+            }));
+            break;
+          case "final":
+            // Add citations once the answer is complete
+            updateAssistant((message) => ({
+              ...message,
+              id: event.messageId || message.id,
+              content: event.answer || message.content || "No response",
+              citations: event.citations || [],
+              confidence: event.confidence,
+              validation: event.validation,
+            }));
+            if (event.conversationId) {
+              setConversationId(event.conversationId);
+              setConversationsVersion((version) => version + 1);
+            }
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      // Read newline-delimited JSON events as they arrive
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          if (line.trim()) handleEvent(JSON.parse(line));
+        }
+
+        if (done) break;
+      }
+      if (buffer.trim()) handleEvent(JSON.parse(buffer));
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "An error occurred";
@@ -106,9 +260,42 @@ export default function ChatbotPage() {
     setTimeout(() => setCopiedId(null), 2000);
   };
 
+  // Start a new conversation; the next question creates it server-side
   const clearChat = () => {
     setMessages([]);
     setError(null);
+    setConversationId(null);
+  };
+
+  // Markdown and JSON download; HTML opens a printable report (save as PDF)
+  const exportConversation = (format: "markdown" | "json" | "html", messageId?: string) => {
+    if (!conversationId) return;
+    const params = new URLSearchParams({ format });
+    if (messageId) params.set("messageId", messageId);
+    window.open(`/api/conversations/${conversationId}/export?${params}`, "_blank");
+  };
+
+  const loadConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to load conversation");
+      }
+      const { conversation } = await response.json();
+      setMessages(
+        (conversation.messages as SavedMessage[]).map((message) => ({
+          ...message,
+          timestamp: new Date(message.timestamp),
+        }))
+      );
+      setSelectedStoreIds(conversation.storeIds);
+      setProfileId(conversation.profileId || "");
+      setConversationId(conversation.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load conversation");
+    }
   };
 
   const confidenceColor = (level?: string) => {
@@ -124,30 +311,111 @@ export default function ChatbotPage() {
     }
   };
 
+  const verificationLabel = (status: string) => {
+    switch (status) {
+      case "verified":
+        return "✓ verified";
+      case "approximate":
+        return "≈ close match";
+      default:
+        return "⚠ unverified";
+    }
+  };
+
+  const verificationStyle = (status: string) => {
+    switch (status) {
+      case "verified":
+        return "text-green-400";
+      case "approximate":
+        return "text-yellow-400";
+      default:
+        return "text-red-400";
+    }
+  };
+
   return (
     <div className="flex h-screen bg-gradient-to-br from-slate-900 to-slate-800">
-      {/* Sidebar - PDF Uploader */}
-      <div className="w-80 border-r border-slate-700 overflow-y-auto p-4">
-        <PDFUploader
-          onUploadSuccess={(storeId, fileName) => {
-            setCurrentStoreId(storeId);
+      {/* Sidebar - Conversations and Document Uploader */}
+      <div className="w-80 border-r border-slate-700 overflow-y-auto p-4 space-y-4">
+        <ConversationList
+          activeConversationId={conversationId}
+          refreshKey={conversationsVersion}
+          onSelect={loadConversation}
+          onNew={clearChat}
+          onDeleted={(id) => id === conversationId && clearChat()}
+        />
+        <DocumentUploader
+          onUploadSuccess={(storeId) => {
+            setSelectedStoreIds((prev) =>
+              prev.includes(storeId) ? prev : [...prev, storeId]
+            );
           }}
-          onSelectPDF={setCurrentStoreId}
-          currentStoreId={currentStoreId}
+          onSelectionChange={setSelectedStoreIds}
+          selectedStoreIds={selectedStoreIds}
         />
       </div>
 
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col">
         {/* Header */}
-        <div className="bg-slate-950 border-b border-slate-700 p-6 shadow-lg">
-          <h1 className="text-3xl font-bold text-white">'35' Chat</h1>
-          <p className="text-slate-400 mt-1">
-            {currentStoreId
-              ? "📄 PDF Mode - Powered by AI"
-              : "💬 General Chat Mode"}{" "}
-            | Built by Aaron Ong
-          </p>
+        <div className="bg-slate-950 border-b border-slate-700 p-6 shadow-lg flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white">&apos;35&apos; Chat</h1>
+            <p className="text-slate-400 mt-1">
+              {selectedStoreIds.length > 1
+                ? `📚 ${selectedStoreIds.length} documents - Powered by AI`
+                : selectedStoreIds.length === 1
+                ? "📄 Document Mode - Powered by AI"
+                : "💬 General Chat Mode"}{" "}
+              | Built by Aaron Ong
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            {profiles.length > 0 && (
+              <label className="text-sm text-slate-400 flex items-center gap-2">
+                Assistant
+                <select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">Document default</option>
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {account && account.workspaces.length > 1 && (
+              <label className="text-sm text-slate-400 flex items-center gap-2">
+                Workspace
+                <select
+                  value={account.workspaceId}
+                  onChange={(e) => switchWorkspace(e.target.value)}
+                  className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                >
+                  {account.workspaces.map((workspace) => (
+                    <option key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {account?.user && (
+              <div className="text-sm text-slate-400 flex items-center gap-2">
+                <span title={account.user.email}>{account.user.name}</span>
+                <button
+                  onClick={signOut}
+                  className="text-slate-400 hover:text-slate-200 transition"
+                >
+                  Sign out
+                </button>
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Messages Container */}
@@ -162,9 +430,11 @@ export default function ChatbotPage() {
                   Start a Conversation
                 </h2>
                 <p className="text-slate-400">
-                  {currentStoreId
-                    ? "Ask questions about your PDF"
-                    : "Upload a PDF or ask a general question"}
+                  {selectedStoreIds.length > 1
+                    ? "Ask one question across your selected documents"
+                    : selectedStoreIds.length === 1
+                    ? "Ask questions about your document"
+                    : "Upload a document or ask a general question"}
                 </p>
               </div>
             </div>
@@ -186,6 +456,16 @@ export default function ChatbotPage() {
               >
                 <p className="text-sm leading-relaxed">{message.content}</p>
 
+                {message.validation?.status === "failed" && (
+                  <p
+                    className="mt-2 text-xs text-yellow-300"
+                    title={message.validation.errors?.join("\n")}
+                  >
+                    ⚠️ This answer could not be validated and has no verified
+                    sources.
+                  </p>
+                )}
+
                 {/* Citations */}
                 {message.citations && message.citations.length > 0 && (
                   <div className="mt-3 pt-3 border-t border-slate-600 space-y-2">
@@ -209,7 +489,34 @@ export default function ChatbotPage() {
                         <div className="flex items-start justify-between gap-2">
                           <div className="flex-1">
                             <p className="font-semibold text-blue-300">
-                              {citation.source}
+                              {citation.fileName || citation.source}
+                              {citation.pageNumber ? (
+                                <span className="font-normal text-slate-400">
+                                  {" "}
+                                  ·{" "}
+                                  {citation.pageEnd &&
+                                  citation.pageEnd !== citation.pageNumber
+                                    ? `pp. ${citation.pageNumber}–${citation.pageEnd}`
+                                    : `p. ${citation.pageNumber}`}
+                                </span>
+                              ) : citation.section ? (
+                                <span className="font-normal text-slate-400">
+                                  {" "}
+                                  · {citation.section}
+                                </span>
+                              ) : null}
+                              {citation.verification && (
+                                <span
+                                  className={`ml-2 font-normal ${verificationStyle(
+                                    citation.verification.status
+                                  )}`}
+                                  title={`Quote match: ${Math.round(
+                                    citation.verification.score * 100
+                                  )}%`}
+                                >
+                                  {verificationLabel(citation.verification.status)}
+                                </span>
+                              )}
                             </p>
                             <p className="text-slate-300 line-clamp-2">
                               {citation.text}
@@ -217,7 +524,12 @@ export default function ChatbotPage() {
                           </div>
                           <button
                             onClick={() =>
-                              copyToClipboard(citation.text, `cite-${idx}`)
+                              copyToClipboard(
+                                citation.pageNumber
+                                  ? `${citation.text} (${citation.fileName || citation.source}, p. ${citation.pageNumber})`
+                                  : citation.text,
+                                `cite-${idx}`
+                              )
                             }
                             className="text-slate-400 hover:text-slate-200 transition mt-1 flex-shrink-0"
                             title="Copy citation"
@@ -234,14 +546,39 @@ export default function ChatbotPage() {
                   </div>
                 )}
 
-                <span className="text-xs opacity-70 mt-2 block">
-                  {message.timestamp.toLocaleTimeString()}
-                </span>
+                <div className="text-xs mt-2 flex items-center gap-3">
+                  <span className="opacity-70">
+                    {message.timestamp.toLocaleTimeString()}
+                  </span>
+                  {message.role === "assistant" && conversationId && !isLoading && (
+                    <span className="text-slate-400 flex items-center gap-2">
+                      Export:
+                      <button
+                        onClick={() => exportConversation("markdown", message.id)}
+                        className="hover:text-slate-200 transition"
+                      >
+                        Markdown
+                      </button>
+                      <button
+                        onClick={() => exportConversation("json", message.id)}
+                        className="hover:text-slate-200 transition"
+                      >
+                        JSON
+                      </button>
+                      <button
+                        onClick={() => exportConversation("html", message.id)}
+                        className="hover:text-slate-200 transition"
+                      >
+                        🖨 Print
+                      </button>
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
           ))}
 
-          {isLoading && (
+          {isLoading && messages[messages.length - 1]?.role !== "assistant" && (
             <div className="flex justify-start">
               <div className="bg-slate-700 text-slate-100 px-4 py-3 rounded-lg rounded-bl-none">
                 <div className="flex space-x-2">
@@ -276,8 +613,8 @@ export default function ChatbotPage() {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               placeholder={
-                currentStoreId
-                  ? "Ask a question about your PDF..."
+                selectedStoreIds.length > 0
+                  ? "Ask a question about your documents..."
                   : "Ask a question..."
               }
               disabled={isLoading}
@@ -298,6 +635,20 @@ export default function ChatbotPage() {
             >
               Clear
             </button>
+            <select
+              value=""
+              onChange={(e) => exportConversation(e.target.value as "markdown" | "json" | "html")}
+              disabled={!conversationId || isLoading}
+              title="Export this conversation"
+              className="bg-slate-700 hover:bg-slate-600 disabled:bg-slate-600 text-white font-semibold px-3 py-3 rounded-lg transition duration-200 disabled:cursor-not-allowed focus:outline-none"
+            >
+              <option value="" disabled>
+                Export
+              </option>
+              <option value="markdown">Markdown</option>
+              <option value="json">JSON</option>
+              <option value="html">Print / PDF</option>
+            </select>
           </form>
         </div>
       </div>
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  storeIds: string[];
+  messageCount: number;
+  updatedAt: string;
+}
+
+interface ConversationListProps {
+  activeConversationId: string | null;
+  // Changes whenever the active conversation gains a turn, to refresh the list
+  refreshKey: number;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+/**
+ * The caller's conversations, or null if they could not be loaded
+ */
+async function fetchConversations(): Promise<ConversationSummary[] | null> {
+  try {
+    const response = await fetch("/api/conversations");
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.conversations;
+  } catch (err) {
+    console.error("Failed to load conversations:", err);
+    return null;
+  }
+}
+
+export default function ConversationList({
+  activeConversationId,
+  refreshKey,
+  onSelect,
+  onNew,
+  onDeleted,
+}: ConversationListProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchConversations().then((loaded) => {
+      if (loaded) setConversations(loaded);
+    });
+  }, [refreshKey]);
+
+  const handleRename = async (conversation: ConversationSummary) => {
+    const title = window.prompt("Rename conversation", conversation.title)?.trim();
+    if (!title || title === conversation.title) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Rename failed");
+      }
+      setConversations((prev) =>
+        prev.map((item) => (item.id === conversation.id ? { ...item, title } : item))
+      );
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Rename failed");
+    }
+  };
+
+  const handleDelete = async (conversation: ConversationSummary) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Delete failed");
+      }
+      setConversations((prev) => prev.filter((item) => item.id !== conversation.id));
+      onDeleted(conversation.id);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Delete failed");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span>🗂️</span>
+          Conversations
+        </h2>
+        <button
+          onClick={onNew}
+          className="text-sm text-blue-400 hover:text-blue-300 transition"
+        >
+          + New
+        </button>
+      </div>
+
+      {notice && (
+        <div className="text-xs text-slate-300 bg-slate-700 p-2 rounded">{notice}</div>
+      )}
+
+      {conversations.length === 0 ? (
+        <p className="text-xs text-slate-400">Your conversations will appear here.</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`flex items-center justify-between px-3 py-2 rounded-lg transition cursor-pointer ${
+                conversation.id === activeConversationId
+                  ? "bg-blue-600 bg-opacity-30 border border-blue-500"
+                  : "bg-slate-700 hover:bg-slate-600 border border-slate-600"
+              }`}
+              onClick={() => onSelect(conversation.id)}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{conversation.title}</p>
+                <p className="text-xs text-slate-400">
+                  {new Date(conversation.updatedAt).toLocaleDateString()} · {conversation.messageCount} messages
+                </p>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRename(conversation);
+                }}
+                className="text-slate-400 hover:text-slate-200 transition ml-2 flex-shrink-0"
+                title="Rename conversation"
+              >
+                <span>✏️</span>
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(conversation);
+                }}
+                className="text-slate-400 hover:text-red-400 transition ml-2 flex-shrink-0"
+                title="Delete conversation"
+              >
+                <span>🗑️</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,485 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback } from "react";
+
+interface UploadedDocument {
+  storeId: string;
+  fileName: string;
+  pages: number;
+  format: string;
+  tags: string[];
+  // "read" for stores shared from another workspace
+  access: "owner" | "read";
+}
+
+interface StoreSummary {
+  storeId: string;
+  chunkCount: number;
+  access: "owner" | "read";
+  metadata: {
+    fileName?: string;
+    displayName?: string;
+    tags?: string[];
+    pageCount?: number;
+    format?: string;
+  };
+}
+
+interface IngestionJob {
+  id: string;
+  storeId: string;
+  fileName: string;
+  status: "queued" | "parsing" | "embedding" | "indexing" | "done" | "failed" | "cancelled";
+  progress: { embedded: number; total: number } | null;
+  pageCount?: number;
+  format?: string;
+  error?: string;
+}
+
+interface DocumentUploaderProps {
+  onUploadSuccess: (storeId: string, fileName: string, suggestedTopics: string[]) => void;
+  onSelectionChange: (storeIds: string[]) => void;
+  selectedStoreIds: string[];
+}
+
+// Keep in sync with SUPPORTED_EXTENSIONS in src/loaders.ts
+const ACCEPTED_EXTENSIONS = [".pdf", ".docx", ".html", ".htm", ".md", ".markdown", ".txt"];
+
+function toUploadedDocument({ storeId, metadata, access }: StoreSummary): UploadedDocument {
+  return {
+    storeId,
+    // Uploads are saved as "<timestamp>-<original name>"
+    fileName: metadata.displayName || (metadata.fileName || storeId).replace(/^\d+-/, ""),
+    pages: metadata.pageCount || 1,
+    format: metadata.format || "pdf",
+    tags: metadata.tags || [],
+    access,
+  };
+}
+
+/**
+ * The stores the caller can see, or null if they could not be loaded
+ */
+async function fetchStores(): Promise<UploadedDocument[] | null> {
+  try {
+    const response = await fetch("/api/stores");
+    if (!response.ok) return null;
+    const data = await response.json();
+    return (data.stores as StoreSummary[]).map(toUploadedDocument);
+  } catch (err) {
+    console.error("Failed to load documents:", err);
+    return null;
+  }
+}
+
+function jobStatusLabel(job: IngestionJob | null): string {
+  if (!job) return "Uploading...";
+  switch (job.status) {
+    case "queued":
+      return "Waiting to be indexed...";
+    case "parsing":
+      return "Reading document...";
+    case "embedding":
+      return job.progress
+        ? `Embedding chunks ${job.progress.embedded}/${job.progress.total}...`
+        : "Embedding chunks...";
+    case "indexing":
+      return "Building search index...";
+    default:
+      return "Finishing...";
+  }
+}
+
+export default function DocumentUploader({
+  onUploadSuccess,
+  onSelectionChange,
+  selectedStoreIds,
+}: DocumentUploaderProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploadedDocuments, setUploadedDocuments] = useState<UploadedDocument[]>([]);
+  const [showUploadForm, setShowUploadForm] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [suggestedTopics, setSuggestedTopics] = useState<string[]>([]);
+  const [activeJob, setActiveJob] = useState<IngestionJob | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadStores = useCallback(async () => {
+    const loaded = await fetchStores();
+    if (loaded) setUploadedDocuments(loaded);
+  }, []);
+
+  useEffect(() => {
+    fetchStores().then((loaded) => {
+      if (loaded) setUploadedDocuments(loaded);
+    });
+  }, []);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+    if (!ACCEPTED_EXTENSIONS.includes(extension)) {
+      setError(`Please select a ${ACCEPTED_EXTENSIONS.join(", ")} file`);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/upload", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Upload failed");
+      }
+
+      const data = await response.json();
+      if (data.duplicate) {
+        setNotice("This document was already uploaded; reusing its index.");
+      }
+
+      let job: IngestionJob;
+      if (data.jobId) {
+        setActiveJob({
+          id: data.jobId,
+          storeId: data.storeId,
+          fileName: data.fileName,
+          status: data.status,
+          progress: null,
+        });
+        // Follow the ingestion job until it finishes
+        job = await followJob(data.jobId);
+      } else {
+        // Already indexed: nothing to wait for
+        job = {
+          id: "",
+          storeId: data.storeId,
+          fileName: data.fileName,
+          status: "done",
+          progress: null,
+          pageCount: data.pages,
+          format: data.format,
+        };
+      }
+      if (job.status === "cancelled") {
+        setError("Upload cancelled");
+        return;
+      }
+      if (job.status !== "done") {
+        throw new Error(job.error || "Indexing failed");
+      }
+
+      // Refresh the list from the server
+      await loadStores();
+
+      // Get suggested topics
+      try {
+        const topicsResponse = await fetch("/api/topics", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ storeId: job.storeId }),
+        });
+        if (topicsResponse.ok) {
+          const topicsData = await topicsResponse.json();
+          setSuggestedTopics(topicsData.topics || []);
+        }
+      } catch (err) {
+        console.error("Failed to get topics:", err);
+      }
+
+      // Reset form
+      setShowUploadForm(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+
+      onUploadSuccess(job.storeId, job.fileName, suggestedTopics);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Upload failed";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+      setActiveJob(null);
+    }
+  };
+
+  // Read the job's NDJSON event stream, returning its final state
+  const followJob = async (jobId: string): Promise<IngestionJob> => {
+    const response = await fetch(`/api/jobs/${jobId}/events`);
+    if (!response.ok || !response.body) {
+      throw new Error("Failed to follow indexing progress");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let latest: IngestionJob | null = null;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        latest = JSON.parse(line) as IngestionJob;
+        setActiveJob(latest);
+      }
+    }
+
+    if (!latest) {
+      throw new Error("Indexing progress stream ended unexpectedly");
+    }
+    return latest;
+  };
+
+  const handleCancel = async () => {
+    if (!activeJob) return;
+    try {
+      await fetch(`/api/jobs/${activeJob.id}`, { method: "DELETE" });
+    } catch (err) {
+      console.error("Failed to cancel upload:", err);
+    }
+  };
+
+  const handleDeleteDocument = async (doc: UploadedDocument) => {
+    if (!window.confirm(`Delete "${doc.fileName}" and its index?`)) return;
+
+    try {
+      const response = await fetch(`/api/stores/${doc.storeId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Delete failed");
+      }
+      setUploadedDocuments((prev) => prev.filter((item) => item.storeId !== doc.storeId));
+      if (selectedStoreIds.includes(doc.storeId)) {
+        onSelectionChange(selectedStoreIds.filter((id) => id !== doc.storeId));
+      }
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Delete failed");
+    }
+  };
+
+  const handleRenameDocument = async (doc: UploadedDocument) => {
+    const displayName = window.prompt("Rename document", doc.fileName)?.trim();
+    if (!displayName || displayName === doc.fileName) return;
+
+    try {
+      const response = await fetch(`/api/stores/${doc.storeId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ displayName }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Rename failed");
+      }
+      setUploadedDocuments((prev) =>
+        prev.map((item) => (item.storeId === doc.storeId ? { ...item, fileName: displayName } : item))
+      );
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Rename failed");
+    }
+  };
+
+  const toggleSelected = (storeId: string) => {
+    onSelectionChange(
+      selectedStoreIds.includes(storeId)
+        ? selectedStoreIds.filter((id) => id !== storeId)
+        : [...selectedStoreIds, storeId]
+    );
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span>📄</span>
+          Documents
+        </h2>
+        <button
+          onClick={() => setShowUploadForm(!showUploadForm)}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition"
+        >
+          <span>⬆️</span>
+          Upload
+        </button>
+      </div>
+
+      {/* Upload Form */}
+      {showUploadForm && (
+        <div className="bg-slate-700 rounded-lg p-4 space-y-3">
+          <label className="block">
+            <span className="text-sm text-slate-300 mb-2 block">
+              Choose a PDF, Word, HTML, Markdown or text file
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_EXTENSIONS.join(",")}
+              onChange={handleFileSelect}
+              disabled={isLoading}
+              className="w-full bg-slate-600 text-slate-100 px-3 py-2 rounded border border-slate-500 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+            />
+          </label>
+
+          {error && (
+            <div className="text-sm text-red-400 bg-red-900 bg-opacity-30 p-2 rounded">
+              {error}
+            </div>
+          )}
+
+          {isLoading && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-blue-400">
+                <span>{jobStatusLabel(activeJob)}</span>
+                {activeJob && (
+                  <button
+                    onClick={handleCancel}
+                    className="text-xs text-slate-400 hover:text-red-400 transition"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {activeJob?.progress && (
+                <div className="h-1.5 bg-slate-600 rounded overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{
+                      width: `${Math.round(
+                        (activeJob.progress.embedded / Math.max(activeJob.progress.total, 1)) * 100
+                      )}%`,
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {notice && !showUploadForm && (
+        <div className="text-xs text-slate-300 bg-slate-700 p-2 rounded">{notice}</div>
+      )}
+
+      {/* Uploaded Documents List */}
+      {uploadedDocuments.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-slate-300">Indexed Documents</h3>
+            {selectedStoreIds.length > 0 && (
+              <button
+                onClick={() => onSelectionChange([])}
+                className="text-xs text-slate-400 hover:text-slate-200 transition"
+              >
+                Clear selection ({selectedStoreIds.length})
+              </button>
+            )}
+          </div>
+          {uploadedDocuments.map((doc) => (
+            <div
+              key={doc.storeId}
+              className={`flex items-center justify-between p-3 rounded-lg transition cursor-pointer ${
+                selectedStoreIds.includes(doc.storeId)
+                  ? "bg-blue-600 bg-opacity-30 border border-blue-500"
+                  : "bg-slate-700 hover:bg-slate-600 border border-slate-600"
+              }`}
+              onClick={() => toggleSelected(doc.storeId)}
+            >
+              <div className="flex items-center gap-3 flex-1">
+                <input
+                  type="checkbox"
+                  checked={selectedStoreIds.includes(doc.storeId)}
+                  onChange={() => toggleSelected(doc.storeId)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="accent-blue-500 flex-shrink-0"
+                />
+                <span className="text-blue-400 text-lg">📄</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate">
+                    {doc.fileName}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {doc.format === "pdf" ? `${doc.pages} pages` : doc.format.toUpperCase()}
+                    {doc.tags.length > 0 && ` · ${doc.tags.join(", ")}`}
+                    {doc.access === "read" && " · shared (read-only)"}
+                  </p>
+                </div>
+              </div>
+              {doc.access === "owner" && (
+                <>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRenameDocument(doc);
+                    }}
+                    className="text-slate-400 hover:text-slate-200 transition ml-2 flex-shrink-0"
+                    title="Rename document"
+                  >
+                    <span>✏️</span>
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteDocument(doc);
+                    }}
+                    className="text-slate-400 hover:text-red-400 transition ml-2 flex-shrink-0"
+                    title="Delete document"
+                  >
+                    <span>🗑️</span>
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Suggested Topics */}
+      {suggestedTopics.length > 0 && selectedStoreIds.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-slate-300">
+            Suggested Questions
+          </h3>
+          <div className="space-y-2">
+            {suggestedTopics.map((topic, idx) => (
+              <button
+                key={idx}
+                className="w-full text-left px-3 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-100 rounded transition truncate"
+                onClick={() => {
+                  // This will be handled by parent component
+                  const event = new CustomEvent("suggestedTopic", {
+                    detail: { topic },
+                  });
+                  window.dispatchEvent(event);
+                }}
+              >
+                {topic}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {uploadedDocuments.length === 0 && !showUploadForm && (
+        <div className="text-center py-6 text-slate-400 text-sm">
+          No documents uploaded yet
+        </div>
+      )}
+    </div>
+  );
+}
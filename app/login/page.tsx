@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(mode === "login" ? "/api/auth/login" : "/api/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          mode === "login" ? { email, password } : { email, password, name: name || undefined }
+        ),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.issues?.map((issue: { message: string }) => issue.message).join(", ") ||
+            errorData.error ||
+            "Sign in failed"
+        );
+      }
+
+      router.push("/chatbot");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gradient-to-br from-slate-900 to-slate-800">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 bg-slate-950 border border-slate-700 rounded-lg p-6 shadow-lg"
+      >
+        <h1 className="text-2xl font-bold text-white">
+          {mode === "login" ? "Sign in" : "Create an account"}
+        </h1>
+
+        {mode === "register" && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+          />
+        )}
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          required
+          className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={mode === "register" ? "Password (at least 8 characters)" : "Password"}
+          required
+          className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+        />
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white font-medium rounded-lg px-4 py-2 transition"
+        >
+          {isLoading ? "Please wait..." : mode === "login" ? "Sign in" : "Create account"}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "login" ? "register" : "login");
+            setError(null);
+          }}
+          className="w-full text-sm text-slate-400 hover:text-slate-200 transition"
+        >
+          {mode === "login" ? "No account? Create one" : "Already have an account? Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
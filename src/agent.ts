@@ -1,16 +1,26 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { HumanMessage, SystemMessage, BaseMessage } from "@langchain/core/messages";
+import { AIMessage, HumanMessage, SystemMessage, BaseMessage } from "@langchain/core/messages";
 import { z } from "zod";
-import { retrieveFromVectorStore, createVectorStore, listVectorStores, loadVectorStore } from "./vectorStore";
-import path from "path";
-import fs from "fs";
+import {
+  getChatModel,
+  getStructuredChatModel,
+  type ChatModel,
+  type StructuredChatModel,
+} from "./providers";
+import type { RetrievalMode } from "./lexicalIndex";
+import { buildSystemPrompt, resolveProfile } from "./profiles";
+import { resolveCitations, type Citation } from "./citations";
+import { ensureDefaultKnowledge, getDefaultKnowledgeManifest } from "./defaultKnowledge";
+import { retrieveFromVectorStore } from "./vectorStore";
+import { getCandidateCount, isRerankingEnabled, rerankDocuments, type RerankOptions } from "./reranking";
+import { recordRetrieval, traceCallbacks, type Trace } from "./tracing";
+import { redactError, redactErrorMessage } from "./redaction";
 import { v4 as uuidv4 } from "uuid";
 
-// Define citation structure
+// Define citation structure: the model cites a [Source N] block by number
+// and quotes it; citations are resolved to chunks and verified afterwards
 const CitationSchema = z.object({
-  text: z.string().describe("The cited text snippet"),
-  source: z.string().describe("Source file name"),
-  chunkIndex: z.number().describe("Chunk index in the document"),
+  sourceNumber: z.number().int().describe("Number N of the [Source N] block the quote comes from"),
+  text: z.string().describe("Exact quote copied from that source"),
 });
 
 // Define response structure with citations
@@ -24,7 +34,29 @@ const RAGResponseSchema = z.object({
     .describe("Confidence level of the answer"),
 });
 
-export type RAGResponse = z.infer<typeof RAGResponseSchema>;
+/**
+ * Outcome of validating the LLM's answer against RAGResponseSchema:
+ * - "valid": the first response validated
+ * - "repaired": a later attempt validated after feeding back the errors
+ * - "failed": no attempt validated; the answer is the raw model output
+ * - "skipped": no LLM call was made (e.g. nothing was retrieved)
+ */
+export interface AnswerValidation {
+  status: "valid" | "repaired" | "failed" | "skipped";
+  attempts: number;
+  errors?: string[];
+}
+
+export type RAGResponse = Omit<z.infer<typeof RAGResponseSchema>, "citations"> & {
+  citations: Citation[];
+  validation: AnswerValidation;
+};
+
+// Extra attempts allowed to fix an answer that fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Chunks retrieved as context for each question; compare values with the evaluation harness
+export const DEFAULT_TOP_K = 8;
 
 /**
  * Simple in-memory document store (for when no PDF is uploaded)
@@ -36,101 +68,33 @@ interface StoredDocument {
 
 let documentStore: StoredDocument[] = [];
 
-// Map to store default knowledge base PDFs
-const defaultKnowledgeBasePDFs = new Map<string, string>();
-let isDefaultKnowledgeInitialized = false;
-
 /**
- * Initialize default knowledge base from src/data directory
- * Automatically loads all PDFs and creates vector stores for them
+ * Sync the default knowledge base from src/data (see defaultKnowledge.ts)
+ * and return the mapping of document file names to storeIds
  */
-async function initializeDefaultKnowledge() {
-  if (isDefaultKnowledgeInitialized) {
-    return defaultKnowledgeBasePDFs;
-  }
-
+async function initializeDefaultKnowledge(): Promise<Map<string, string>> {
   try {
-    const dataDir = path.join(process.cwd(), "src", "data");
-    
-    // Check if data directory exists
-    if (!fs.existsSync(dataDir)) {
-      console.log("📁 No src/data directory found. Using fallback knowledge only.");
-      isDefaultKnowledgeInitialized = true;
-      return defaultKnowledgeBasePDFs;
-    }
-
-    // Find all PDF files in src/data
-    const files = fs.readdirSync(dataDir);
-    const pdfFiles = files.filter((file) => file.toLowerCase().endsWith(".pdf"));
-
-    if (pdfFiles.length === 0) {
-      console.log("📁 No PDF files found in src/data. Using fallback knowledge only.");
-      isDefaultKnowledgeInitialized = true;
-      return defaultKnowledgeBasePDFs;
-    }
-
-    console.log(`📚 Found ${pdfFiles.length} PDF(s) in src/data directory`);
-
-    // Process each PDF file
-    for (const pdfFile of pdfFiles) {
-      const filePath = path.join(dataDir, pdfFile);
-      
-      try {
-        // Check if this PDF already has a vector store
-        const existingStores = listVectorStores();
-        let storeId = existingStores.find(
-          (store) => store.includes(pdfFile) || store.includes(pdfFile.replace(/\s+/g, "_"))
-        );
-
-        // If no existing store, create a new one
-        if (!storeId) {
-          storeId = `default_${pdfFile.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}`;
-          
-          console.log(`🔄 Creating vector store for: ${pdfFile}`);
-          const { pageCount, chunkCount } = await createVectorStore(filePath, storeId);
-          console.log(`✅ Created vector store: ${storeId} (${pageCount} pages, ${chunkCount} chunks)`);
-        } else {
-          // Verify store exists
-          const store = await loadVectorStore(storeId);
-          if (!store) {
-            // Recreate if missing
-            console.log(`🔄 Recreating vector store for: ${pdfFile}`);
-            const { pageCount, chunkCount } = await createVectorStore(filePath, storeId);
-            console.log(`✅ Recreated vector store: ${storeId} (${pageCount} pages, ${chunkCount} chunks)`);
-          } else {
-            console.log(`✅ Using existing vector store: ${storeId}`);
-          }
-        }
-
-        // Map file name to storeId for quick lookup
-        defaultKnowledgeBasePDFs.set(pdfFile, storeId);
-      } catch (err) {
-        console.error(`❌ Error processing PDF ${pdfFile}:`, err);
-      }
-    }
-
-    console.log(`📚 Default knowledge base initialized with ${defaultKnowledgeBasePDFs.size} PDF(s)`);
-    isDefaultKnowledgeInitialized = true;
+    await ensureDefaultKnowledge();
   } catch (err) {
     console.error("❌ Error initializing default knowledge base:", err);
-    isDefaultKnowledgeInitialized = true;
   }
-
-  return defaultKnowledgeBasePDFs;
+  return getDefaultKnowledgePDFs();
 }
 
 /**
  * Get default knowledge base storeIds
  */
-function getDefaultKnowledgeStoreIds(): string[] {
-  return Array.from(defaultKnowledgeBasePDFs.values());
+async function getDefaultKnowledgeStoreIds(): Promise<string[]> {
+  const manifest = await getDefaultKnowledgeManifest();
+  return Object.values(manifest.files).map((entry) => entry.storeId);
 }
 
 /**
- * Get mapping of PDF names to storeIds
+ * Get mapping of document file names to storeIds
  */
-function getDefaultKnowledgePDFs(): Map<string, string> {
-  return defaultKnowledgeBasePDFs;
+async function getDefaultKnowledgePDFs(): Promise<Map<string, string>> {
+  const manifest = await getDefaultKnowledgeManifest();
+  return new Map(Object.entries(manifest.files).map(([fileName, entry]) => [fileName, entry.storeId]));
 }
 
 async function initializeDocumentStore() {
@@ -152,57 +116,131 @@ async function initializeDocumentStore() {
   return documentStore;
 }
 
+export type ScoredDocument = {
+  pageContent: string;
+  metadata: Record<string, unknown>;
+  score?: number;
+  // Stored chunk vector, only fetched when diversity re-ranking needs it
+  embedding?: ArrayLike<number>;
+};
+
+/**
+ * How each store is searched: the retrieval mode and, for stores with an
+ * approximate index, the clusters probed per query (more is slower but
+ * finds more; defaults to VECTOR_INDEX_NPROBE)
+ */
+export interface SearchOptions {
+  mode?: RetrievalMode;
+  nprobe?: number;
+}
+
 /**
- * Retrieve documents - either from vector store (PDF), default knowledge base, or in-memory store
+ * Retrieve from several stores and merge the results.
+ * Scores are normalised per store (divided by that store's best score) so
+ * stores with different score ranges compete fairly, and each store is
+ * guaranteed a share of the results before the rest are filled by score.
+ * Each result's metadata records its storeId and raw score.
  */
-async function retrieveDocuments(
+async function retrieveFromStores(
   query: string,
-  storeId?: string,
-  topK: number = 8 // FIX: Increased from 4 to 8
-): Promise<
-  Array<{
-    pageContent: string;
-    metadata: Record<string, unknown>;
-    score?: number;
-  }>
-> {
-  // If storeId provided, use specific vector store (uploaded PDF)
-  if (storeId) {
+  storeIds: string[],
+  topK: number,
+  search: SearchOptions = {},
+  includeEmbeddings = false
+): Promise<ScoredDocument[]> {
+  const perStore: ScoredDocument[][] = [];
+  for (const storeId of storeIds) {
     try {
-      return await retrieveFromVectorStore(storeId, query, topK);
+      const results = await retrieveFromVectorStore(storeId, query, topK, { ...search, includeEmbeddings });
+      const maxScore = Math.max(...results.map((doc) => doc.score || 0));
+      perStore.push(
+        results.map((doc) => ({
+          pageContent: doc.pageContent,
+          metadata: { ...doc.metadata, storeId, rawScore: doc.score },
+          score: maxScore > 0 ? (doc.score || 0) / maxScore : 0,
+          embedding: doc.embedding,
+        }))
+      );
     } catch (err) {
-      console.error("Vector store retrieval error:", err);
-      // Fall back to default knowledge base
+      console.warn(`Warning: Could not retrieve from store ${storeId}:`, redactError(err));
+    }
+  }
+
+  // Guarantee each store a quota, then fill the remaining slots by score
+  const quota = Math.max(1, Math.floor(topK / (2 * Math.max(perStore.length, 1))));
+  const selected = new Set<ScoredDocument>();
+  const byBestFirst = [...perStore].sort((a, b) => (b[0]?.score || 0) - (a[0]?.score || 0));
+  for (const results of byBestFirst) {
+    for (const doc of results.slice(0, quota)) {
+      if (selected.size >= topK) break;
+      selected.add(doc);
+    }
+  }
+
+  const remaining = perStore
+    .flat()
+    .filter((doc) => !selected.has(doc))
+    .sort((a, b) => (b.score || 0) - (a.score || 0));
+  for (const doc of remaining) {
+    if (selected.size >= topK) break;
+    selected.add(doc);
+  }
+
+  return Array.from(selected).sort((a, b) => (b.score || 0) - (a.score || 0));
+}
+
+/**
+ * Retrieve documents and apply the post-retrieval re-ranking stage, if any
+ */
+export async function retrieveDocuments(
+  query: string,
+  storeIds: string[] = [],
+  topK: number = DEFAULT_TOP_K,
+  search: SearchOptions = {},
+  rerank?: RerankOptions,
+  trace?: Trace
+): Promise<ScoredDocument[]> {
+  if (!isRerankingEnabled(rerank)) {
+    return retrieveCandidates(query, storeIds, topK, search);
+  }
+
+  const candidates = await retrieveCandidates(query, storeIds, getCandidateCount(topK, rerank), search, true);
+  return rerankDocuments(query, candidates, topK, rerank, trace);
+}
+
+/**
+ * Retrieve documents - either from vector stores (uploaded documents), default knowledge base, or in-memory store
+ */
+async function retrieveCandidates(
+  query: string,
+  storeIds: string[],
+  topK: number,
+  search: SearchOptions,
+  includeEmbeddings = false
+): Promise<ScoredDocument[]> {
+  // If storeIds provided, use only the selected vector stores (uploaded
+  // documents); no results means there is nothing relevant to answer from
+  if (storeIds.length > 0) {
+    const results = await retrieveFromStores(query, storeIds, topK, search, includeEmbeddings);
+    if (results.length === 0) {
+      console.warn("Selected stores returned no results");
     }
+    return results;
   }
 
   // Try to retrieve from default knowledge base (hardcoded PDFs from src/data)
   await initializeDefaultKnowledge();
-  const defaultStoreIds = getDefaultKnowledgeStoreIds();
+  const defaultStoreIds = await getDefaultKnowledgeStoreIds();
   
   if (defaultStoreIds.length > 0) {
     try {
       // Retrieve from all default knowledge stores and merge results
-      const allResults = [];
-      // Calculate how many chunks to get from each store (at least 2 if topK is 8 and there are up to 4 stores)
-      const kPerStore = Math.max(2, Math.floor(topK / defaultStoreIds.length));
-      for (const defaultStoreId of defaultStoreIds) {
-        try {
-          const results = await retrieveFromVectorStore(defaultStoreId, query, kPerStore);
-          allResults.push(...results);
-        } catch (err) {
-          console.warn(`Warning: Could not retrieve from default store ${defaultStoreId}:`, err);
-        }
-      }
-      
+      const allResults = await retrieveFromStores(query, defaultStoreIds, topK, search, includeEmbeddings);
       if (allResults.length > 0) {
-        // Sort by score if available and return top K
-        return allResults
-          .sort((a, b) => (b.score || 0) - (a.score || 0))
-          .slice(0, topK);
+        return allResults;
       }
     } catch (err) {
-      console.error("Default knowledge base retrieval error:", err);
+      console.error("Default knowledge base retrieval error:", redactError(err));
       // Fall back to in-memory store
     }
   }
@@ -216,126 +254,418 @@ async function retrieveDocuments(
 }
 
 /**
- * Main chatbot graph with RAG and citations
+ * A prior turn in the conversation
  */
-export async function chatbotGraph({
+export interface ChatHistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Bound how much of the conversation is sent back to the LLM
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_CHARS = 6000;
+
+/**
+ * Keep the most recent messages that fit within the history budget
+ */
+function boundHistory(history: ChatHistoryMessage[]): ChatHistoryMessage[] {
+  const bounded: ChatHistoryMessage[] = [];
+  let totalChars = 0;
+
+  for (const message of history.slice(-MAX_HISTORY_MESSAGES).reverse()) {
+    if (totalChars + message.content.length > MAX_HISTORY_CHARS) break;
+    bounded.unshift(message);
+    totalChars += message.content.length;
+  }
+
+  return bounded;
+}
+
+function toLangChainMessages(history: ChatHistoryMessage[]): BaseMessage[] {
+  return history.map((message) =>
+    message.role === "user"
+      ? new HumanMessage(message.content)
+      : new AIMessage(message.content)
+  );
+}
+
+/**
+ * Condense the conversation and a follow-up question into a standalone
+ * question suitable for retrieval
+ */
+async function condenseQuestion(
+  llm: ChatModel,
+  input: string,
+  history: ChatHistoryMessage[],
+  trace?: Trace
+): Promise<string> {
+  if (history.length === 0) return input;
+
+  const transcript = history
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n");
+
+  try {
+    const response = await llm.invoke([
+      new SystemMessage(
+        "Given a conversation and a follow-up question, rewrite the follow-up as a standalone question that can be understood without the conversation. Resolve pronouns and references such as \"the second one\". Do NOT answer the question. Respond with the standalone question only."
+      ),
+      new HumanMessage(`Conversation:\n${transcript}\n\nFollow-up question: ${input}`),
+    ], { callbacks: traceCallbacks(trace, "condense") });
+    const standalone = (response.content as string).trim();
+    return standalone || input;
+  } catch (err) {
+    console.error("Question condensing error:", redactError(err));
+    return input;
+  }
+}
+
+type RetrievedDocument = Awaited<ReturnType<typeof retrieveDocuments>>[number];
+
+/**
+ * Page range of a retrieved chunk, if the store recorded one
+ */
+function getPageRange(doc: RetrievedDocument): { pageNumber?: number; pageEnd?: number } {
+  const pageNumber = doc.metadata.pageNumber as number | undefined;
+  if (!pageNumber) return {};
+  return {
+    pageNumber,
+    pageEnd: (doc.metadata.pageEnd as number | undefined) || pageNumber,
+  };
+}
+
+function formatPageRange({ pageNumber, pageEnd }: { pageNumber?: number; pageEnd?: number }): string {
+  if (!pageNumber) return "";
+  return pageEnd && pageEnd !== pageNumber ? `, Pages: ${pageNumber}-${pageEnd}` : `, Page: ${pageNumber}`;
+}
+
+/**
+ * Heading path of a retrieved chunk ("Chapter > Section"), for unpaginated formats
+ */
+function getSection(doc: RetrievedDocument): string | undefined {
+  const headings = doc.metadata.headings as string[] | undefined;
+  return headings && headings.length > 0 ? headings.join(" > ") : undefined;
+}
+
+/**
+ * Events emitted while streaming an answer
+ */
+export type ChatStreamEvent =
+  | {
+      type: "retrieval";
+      query: string;
+      documents: Array<{
+        source: string;
+        fileName?: string;
+        chunkIndex?: number;
+        pageNumber?: number;
+        pageEnd?: number;
+        section?: string;
+        score?: number;
+        // Set when re-ranking ran: the score before re-ranking, and the re-ranker's score
+        retrievalScore?: number;
+        rerankScore?: number;
+        snippet: string;
+      }>;
+    }
+  | { type: "token"; content: string }
+  | ({ type: "final" } & RAGResponse)
+  | { type: "error"; error: string };
+
+/**
+ * Extract the (possibly incomplete) value of the "answer" field from a
+ * partially streamed JSON response, decoding escapes as we go
+ */
+function extractPartialAnswer(buffer: string): string {
+  const match = buffer.match(/"answer"\s*:\s*"/);
+  if (!match || match.index === undefined) return "";
+
+  let answer = "";
+  for (let i = match.index + match[0].length; i < buffer.length; i++) {
+    const ch = buffer[i];
+    if (ch === '"') break;
+    if (ch !== "\\") {
+      answer += ch;
+      continue;
+    }
+
+    // Wait for the rest of an escape sequence before decoding it
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      answer += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+    answer += escapes[next] ?? next;
+    i += 1;
+  }
+
+  return answer;
+}
+
+/**
+ * Parse the LLM's output and validate it against RAGResponseSchema,
+ * returning human-readable errors to feed back to the model on failure
+ */
+function validateRAGResponse(
+  responseContent: string
+): { success: true; data: z.infer<typeof RAGResponseSchema> } | { success: false; errors: string[] } {
+  const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { success: false, errors: ["Response did not contain a JSON object"] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(jsonMatch[0]);
+  } catch (err) {
+    return {
+      success: false,
+      errors: [`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`],
+    };
+  }
+
+  const result = RAGResponseSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+      ),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Validate the streamed answer, asking the model to repair it (with the
+ * validation errors) a bounded number of times before reporting failure
+ */
+async function validateWithRepair(
+  answerModel: StructuredChatModel,
+  messages: BaseMessage[],
+  responseContent: string,
+  relevantDocs: RetrievedDocument[],
+  trace?: Trace
+): Promise<RAGResponse> {
+  let content = responseContent;
+  let result = validateRAGResponse(content);
+  let attempts = 1;
+  const conversation = [...messages];
+
+  while (!result.success && attempts <= MAX_REPAIR_ATTEMPTS) {
+    console.warn(`Answer failed validation (attempt ${attempts}):`, result.errors);
+    conversation.push(
+      new AIMessage(content),
+      new HumanMessage(
+        `Your previous response did not match the required JSON format:\n${result.errors
+          .map((error) => `- ${error}`)
+          .join("\n")}\n\nRespond again with ONLY a JSON object in the required format.`
+      )
+    );
+
+    try {
+      const repaired = await answerModel.invoke(conversation, { callbacks: traceCallbacks(trace, "repair") });
+      content = typeof repaired.content === "string" ? repaired.content : JSON.stringify(repaired.content);
+    } catch (err) {
+      console.error("Repair attempt error:", err);
+      break;
+    } finally {
+      attempts++;
+    }
+    result = validateRAGResponse(content);
+  }
+
+  if (result.success) {
+    return {
+      ...result.data,
+      citations: resolveCitations(result.data.citations, relevantDocs),
+      validation: { status: attempts === 1 ? "valid" : "repaired", attempts },
+    };
+  }
+
+  // Report the failure rather than dressing up unvalidated output
+  console.error("Answer failed validation after repair attempts:", result.errors);
+  return {
+    answer: extractPartialAnswer(content) || content,
+    citations: [],
+    confidence: "low",
+    validation: { status: "failed", attempts, errors: result.errors },
+  };
+}
+
+/**
+ * Streaming chatbot graph: yields retrieval results, answer tokens and
+ * finally the parsed answer with citations
+ */
+export async function* streamChatbotGraph({
   input,
-  storeId,
+  storeIds,
+  history = [],
+  retrievalMode,
+  profileId,
+  rerank,
+  topK = DEFAULT_TOP_K,
+  nprobe,
+  trace,
 }: {
   input: string;
-  storeId?: string;
-}): Promise<RAGResponse> {
+  storeIds?: string[];
+  history?: ChatHistoryMessage[];
+  retrievalMode?: RetrievalMode;
+  profileId?: string;
+  rerank?: RerankOptions;
+  topK?: number;
+  // Clusters probed in stores with an approximate index (see SearchOptions)
+  nprobe?: number;
+  // Records retrieval and LLM calls for this request
+  trace?: Trace;
+}): AsyncGenerator<ChatStreamEvent> {
+  const profile = resolveProfile(profileId, storeIds);
+
+  // Initialize LLM
+  const llm = getChatModel({ temperature: 0.2 });
+  const answerModel = getStructuredChatModel("rag_response", RAGResponseSchema, { temperature: 0.2 });
+
+  // Rewrite follow-ups into a standalone question before retrieval
+  const recentHistory = boundHistory(history);
+  const query = await condenseQuestion(llm, input, recentHistory, trace);
+  if (trace) trace.query = query;
+
   // Retrieve relevant documents
-  const relevantDocs = await retrieveDocuments(input, storeId, 8); // FIX: Changed from 4 to 8
+  const retrievalStarted = Date.now();
+  const relevantDocs = await retrieveDocuments(
+    query,
+    storeIds,
+    topK,
+    { mode: retrievalMode, nprobe },
+    rerank,
+    trace
+  );
+  recordRetrieval(trace, Date.now() - retrievalStarted, relevantDocs);
+
+  yield {
+    type: "retrieval",
+    query,
+    documents: relevantDocs.map((doc) => ({
+      source: (doc.metadata.source as string) || "unknown",
+      fileName: doc.metadata.fileName as string | undefined,
+      chunkIndex: doc.metadata.chunkIndex as number | undefined,
+      pageNumber: doc.metadata.pageNumber as number | undefined,
+      pageEnd: doc.metadata.pageEnd as number | undefined,
+      section: getSection(doc),
+      score: doc.score,
+      retrievalScore: doc.metadata.retrievalScore as number | undefined,
+      rerankScore: doc.metadata.rerankScore as number | undefined,
+      snippet: doc.pageContent.substring(0, 200),
+    })),
+  };
 
   if (relevantDocs.length === 0) {
-    return {
+    yield {
+      type: "final",
       answer: "Sorry, I couldn't find relevant information to answer your question.",
       citations: [],
       confidence: "low",
+      validation: { status: "skipped", attempts: 0 },
     };
+    return;
   }
 
   // Build context from retrieved documents
   const context = relevantDocs
-    .map(
-      (doc, idx) =>
-        `[Source ${idx + 1}]\n${doc.pageContent}\n(File: ${doc.metadata.source})\n`
-    )
+    .map((doc, idx) => {
+      const section = getSection(doc);
+      return `[Source ${idx + 1}]\n${doc.pageContent}\n(File: ${doc.metadata.source}${formatPageRange(getPageRange(doc))}${section ? `, Section: ${section}` : ""})\n`;
+    })
     .join("\n---\n\n");
 
-  // Initialize LLM
-  const llm = new ChatOpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-    model: process.env.OPENAI_CHAT_BASE_URL ? "openai/gpt-4o-mini" : "gpt-4o-mini",
-    temperature: 0.2,
-    configuration: {
-      baseURL: process.env.OPENAI_CHAT_BASE_URL || "https://api.openai.com/v1",
-    },
-  });
-
-  // Build the prompt with structured instruction
-  const systemPrompt = `You are a helpful assistant that answers questions based on provided documents.
-You MUST respond in the following JSON format:
-{
-  "answer": "Your detailed answer here",
-  "citations": [
-    {"text": "relevant text snippet", "source": "filename", "chunkIndex": 0}
-  ],
-  "confidence": "high|medium|low"
-}
-
-For each claim, cite which source file it comes from.
-
-**CRITICAL INSTRUCTION**: The user explicitly asked for details on *Kementerian Hal Ehwal Luar Negeri* and explicitly excluded *Kementerian Hal Ehwal Dalam Negeri*. You MUST adhere to this constraint. If the context does not contain relevant, citable information about *Kementerian Hal Ehwal Luar Negeri*, you must state that the information is unavailable in the provided documents and set confidence to 'low'. Do NOT provide information on an excluded subject, even if it is retrieved in the context.
-
-Context (documents):
-${context}`;
+  // Build the prompt from the assistant profile
+  const systemPrompt = buildSystemPrompt(profile, context);
 
   const messages: BaseMessage[] = [
     new SystemMessage(systemPrompt),
+    ...toLangChainMessages(recentHistory),
     new HumanMessage(input),
   ];
 
-  // Get LLM response
-  let response;
+  // Stream LLM response, forwarding the decoded "answer" field as it grows
+  let responseContent = "";
+  let emittedLength = 0;
   try {
-    console.log("Calling LLM with configuration:", {
-      model: "gpt-4o-mini",
-      baseURL: process.env.OPENAI_CHAT_BASE_URL || "default (https://api.openai.com/v1)",
-      apiKey: process.env.OPENAI_API_KEY ? `${process.env.OPENAI_API_KEY.substring(0, 10)}...` : "NOT SET",
-      temperature: 0.2,
-    });
-    response = await llm.invoke(messages);
+    const stream = await answerModel.stream(messages, { callbacks: traceCallbacks(trace, "answer") });
+    for await (const chunk of stream) {
+      if (typeof chunk.content !== "string" || chunk.content.length === 0) continue;
+      responseContent += chunk.content;
+
+      const partialAnswer = extractPartialAnswer(responseContent);
+      if (partialAnswer.length > emittedLength) {
+        yield { type: "token", content: partialAnswer.slice(emittedLength) };
+        emittedLength = partialAnswer.length;
+      }
+    }
   } catch (invokeError) {
-    console.error("LLM invoke error:", {
-      message: invokeError instanceof Error ? invokeError.message : String(invokeError),
-      error: invokeError,
-    });
-    const errorMessage = invokeError instanceof Error ? invokeError.message : String(invokeError);
+    const errorMessage = redactErrorMessage(invokeError);
+    console.error("LLM invoke error:", errorMessage);
     throw new Error(`Failed to get LLM response: ${errorMessage}`);
   }
 
-  const responseContent = response.content as string;
-
-  // Parse the JSON response
-  try {
-    const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]) as RAGResponse;
-
-      // Enrich citations with actual content from retrieved docs
-      const enrichedCitations = parsed.citations.map((citation: z.infer<typeof CitationSchema>) => {
-        const source = relevantDocs.find(
-          (doc) => doc.metadata.source === citation.source
-        );
-        return {
-          ...citation,
-          text: source?.pageContent?.substring(0, 200) || citation.text,
-        };
-      });
+  yield {
+    type: "final",
+    ...(await validateWithRepair(answerModel, messages, responseContent, relevantDocs, trace)),
+  };
+}
 
+/**
+ * Main chatbot graph with RAG and citations
+ */
+export async function chatbotGraph({
+  input,
+  storeIds,
+  history,
+  retrievalMode,
+  profileId,
+  rerank,
+  topK,
+  nprobe,
+  trace,
+}: {
+  input: string;
+  storeIds?: string[];
+  history?: ChatHistoryMessage[];
+  retrievalMode?: RetrievalMode;
+  profileId?: string;
+  rerank?: RerankOptions;
+  topK?: number;
+  nprobe?: number;
+  trace?: Trace;
+}): Promise<RAGResponse> {
+  for await (const event of streamChatbotGraph({
+    input,
+    storeIds,
+    history,
+    retrievalMode,
+    profileId,
+    rerank,
+    topK,
+    nprobe,
+    trace,
+  })) {
+    if (event.type === "final") {
       return {
-        ...parsed,
-        citations: enrichedCitations,
+        answer: event.answer,
+        citations: event.citations,
+        confidence: event.confidence,
+        validation: event.validation,
       };
     }
-  } catch (err) {
-    console.error("Parsing error:", err);
   }
 
-  // Fallback: create citations from retrieved docs
-  return {
-    answer: responseContent,
-    citations: relevantDocs
-      .slice(0, 3)
-      .map((doc, idx) => ({
-        text: doc.pageContent.substring(0, 200),
-        source: (doc.metadata.source as string) || "unknown",
-        chunkIndex: (doc.metadata.chunkIndex as number) || idx,
-      })),
-    confidence: "medium",
-  };
+  throw new Error("Chatbot graph finished without an answer");
 }
 
 /**
@@ -348,14 +678,7 @@ export async function getSuggestedTopics(storeId: string): Promise<string[]> {
     "What is this document about?",
   ];
 
-  const llm = new ChatOpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-    model: process.env.OPENAI_CHAT_BASE_URL ? "openai/gpt-4o-mini" : "gpt-4o-mini",
-    temperature: 0.3,
-    configuration: {
-      baseURL: process.env.OPENAI_CHAT_BASE_URL || process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
-    },
-  });
+  const llm = getChatModel({ temperature: 0.3 });
 
   try {
     // Retrieve a sample from the document
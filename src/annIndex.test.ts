@@ -0,0 +1,140 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  buildIvfIndex,
+  cosineSimilarity,
+  readIvfIndex,
+  removeIvfIndex,
+  searchIvfIndex,
+  writeIvfIndex,
+} from "./annIndex";
+import type { EmbeddingMatrix } from "./vectorStoreFormat";
+
+const DIMENSIONS = 16;
+
+/**
+ * Deterministic vectors scattered around `clusters` random directions
+ */
+function clusteredVectors(count: number, clusters: number, seed = 1): Float32Array {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return state / 2 ** 32 - 0.5;
+  };
+  const centers = Array.from({ length: clusters }, () => Array.from({ length: DIMENSIONS }, random));
+  const vectors = new Float32Array(count * DIMENSIONS);
+  for (let idx = 0; idx < count; idx++) {
+    const center = centers[idx % clusters];
+    for (let i = 0; i < DIMENSIONS; i++) vectors[idx * DIMENSIONS + i] = center[i] + random() * 0.2;
+  }
+  return vectors;
+}
+
+function exactSearch(vectors: EmbeddingMatrix, query: ArrayLike<number>, topK: number): number[] {
+  const count = vectors.length / DIMENSIONS;
+  return Array.from({ length: count }, (_, idx) => ({
+    idx,
+    score: cosineSimilarity(query, vectors.subarray(idx * DIMENSIONS, (idx + 1) * DIMENSIONS)),
+  }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((result) => result.idx);
+}
+
+describe("cosineSimilarity", () => {
+  it("ignores vector length", () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 5])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [-3, 0])).toBeCloseTo(-1);
+  });
+});
+
+describe("buildIvfIndex", () => {
+  it("puts every vector in exactly one list", () => {
+    const vectors = clusteredVectors(200, 5);
+    const index = buildIvfIndex(vectors, DIMENSIONS, 200, 10);
+
+    expect(index.nlist).toBe(10);
+    expect(index.listOffsets).toHaveLength(11);
+    expect(index.listOffsets[10]).toBe(200);
+    expect(Array.from(index.listIds).sort((a, b) => a - b)).toEqual(Array.from({ length: 200 }, (_, idx) => idx));
+  });
+
+  it("never has more lists than vectors", () => {
+    const index = buildIvfIndex(clusteredVectors(3, 3), DIMENSIONS, 3, 10);
+    expect(index.nlist).toBe(3);
+  });
+
+  it("indexes int8 rows as stored", () => {
+    const vectors = clusteredVectors(300, 6);
+    const quantized = new Int8Array(vectors.length);
+    for (let row = 0; row < 300; row++) {
+      const values = vectors.subarray(row * DIMENSIONS, (row + 1) * DIMENSIONS);
+      const scale = Math.max(...Array.from(values, Math.abs)) / 127;
+      values.forEach((value, i) => (quantized[row * DIMENSIONS + i] = Math.round(value / scale)));
+    }
+
+    const index = buildIvfIndex(quantized, DIMENSIONS, 300, 6);
+    const query = vectors.subarray(0, DIMENSIONS);
+    expect(searchIvfIndex(index, quantized, query, 10, 6).map((result) => result.idx)).toEqual(
+      exactSearch(quantized, query, 10)
+    );
+  });
+});
+
+describe("searchIvfIndex", () => {
+  const count = 1000;
+  const vectors = clusteredVectors(count, 20);
+  const index = buildIvfIndex(vectors, DIMENSIONS, count, 32);
+  const queries = clusteredVectors(20, 20, 7);
+
+  it("matches exact search when every list is probed", () => {
+    for (let q = 0; q < 20; q++) {
+      const query = queries.subarray(q * DIMENSIONS, (q + 1) * DIMENSIONS);
+      const results = searchIvfIndex(index, vectors, query, 10, index.nlist);
+      expect(results.map((result) => result.idx)).toEqual(exactSearch(vectors, query, 10));
+    }
+  });
+
+  it("finds most exact neighbours with a few probes", () => {
+    let found = 0;
+    for (let q = 0; q < 20; q++) {
+      const query = queries.subarray(q * DIMENSIONS, (q + 1) * DIMENSIONS);
+      const exact = new Set(exactSearch(vectors, query, 10));
+      found += searchIvfIndex(index, vectors, query, 10, 4).filter((result) => exact.has(result.idx)).length;
+    }
+    expect(found / 200).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("probes more lists until it has topK results", () => {
+    const query = queries.subarray(0, DIMENSIONS);
+    expect(searchIvfIndex(index, vectors, query, 200, 1)).toHaveLength(200);
+  });
+
+  it("returns results best first", () => {
+    const results = searchIvfIndex(index, vectors, queries.subarray(0, DIMENSIONS), 10);
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+    }
+  });
+});
+
+describe("index files", () => {
+  it("round-trip, and are ignored once the store's size changes", async () => {
+    const storePath = fs.mkdtempSync(path.join(os.tmpdir(), "rag-index-"));
+    try {
+      const index = buildIvfIndex(clusteredVectors(100, 4), DIMENSIONS, 100, 8);
+      await writeIvfIndex(storePath, index);
+
+      expect(await readIvfIndex(storePath, 100)).toEqual(index);
+      expect(await readIvfIndex(storePath, 101)).toBeNull();
+
+      await removeIvfIndex(storePath);
+      expect(await readIvfIndex(storePath, 100)).toBeNull();
+    } finally {
+      fs.rmSync(storePath, { recursive: true, force: true });
+    }
+  });
+});
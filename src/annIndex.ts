@@ -0,0 +1,270 @@
+import path from "path";
+import fs from "fs";
+import { readFile, writeFile, rename, rm } from "fs/promises";
+import type { EmbeddingMatrix } from "./vectorStoreFormat";
+
+/**
+ * Inverted-file (IVF) approximate nearest-neighbour index.
+ *
+ * Vectors are clustered with spherical k-means; a query is compared against
+ * the cluster centroids and only the vectors in the `nprobe` closest
+ * clusters are scored exactly. Raising nprobe trades speed for recall
+ * (nprobe = nlist is an exact search).
+ *
+ * Persisted next to the store as:
+ *   index.json          parameters and per-list offsets
+ *   ivf.centroids.f32   nlist x dimensions Float32 centroids
+ *   ivf.lists.u32       vector ids grouped by list
+ */
+export interface IvfIndex {
+  nlist: number;
+  dimensions: number;
+  count: number;
+  centroids: Float32Array;
+  // ids of list i are listIds[listOffsets[i] .. listOffsets[i + 1])
+  listOffsets: number[];
+  listIds: Uint32Array;
+}
+
+interface IvfIndexFile {
+  type: "ivf";
+  nlist: number;
+  dimensions: number;
+  count: number;
+  listOffsets: number[];
+}
+
+const INDEX_FILE = "index.json";
+const CENTROIDS_FILE = "ivf.centroids.f32";
+const LISTS_FILE = "ivf.lists.u32";
+
+const KMEANS_ITERATIONS = 10;
+// Cap the vectors used to train centroids so ingestion stays fast
+const KMEANS_MAX_TRAINING = 20000;
+
+/**
+ * Stores with fewer chunks than this use exact search (VECTOR_INDEX_MIN_CHUNKS)
+ */
+export function getIndexMinChunks(): number {
+  return Number(process.env.VECTOR_INDEX_MIN_CHUNKS) || 1000;
+}
+
+/**
+ * Clusters probed per query (VECTOR_INDEX_NPROBE); higher is slower but more accurate
+ */
+export function getDefaultNprobe(): number {
+  return Number(process.env.VECTOR_INDEX_NPROBE) || 8;
+}
+
+/**
+ * Cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB) + 1e-10);
+}
+
+function row<T extends EmbeddingMatrix>(matrix: T, idx: number, dimensions: number): T {
+  return matrix.subarray(idx * dimensions, (idx + 1) * dimensions) as T;
+}
+
+function normalize(vector: Float32Array): void {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return;
+  for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+}
+
+function nearestCentroid(
+  vector: ArrayLike<number>,
+  centroids: Float32Array,
+  nlist: number,
+  dimensions: number
+): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let c = 0; c < nlist; c++) {
+    const score = cosineSimilarity(vector, row(centroids, c, dimensions));
+    if (score > bestScore) {
+      bestScore = score;
+      best = c;
+    }
+  }
+  return best;
+}
+
+/**
+ * Build an IVF index over a row-major embedding matrix. Int8 rows are used
+ * as stored: clustering is by cosine similarity, which per-row scales do not
+ * change.
+ */
+export function buildIvfIndex(
+  embeddings: EmbeddingMatrix,
+  dimensions: number,
+  count: number,
+  nlist: number = Math.max(1, Math.round(Math.sqrt(count)))
+): IvfIndex {
+  nlist = Math.min(nlist, count);
+
+  // Deterministic training sample and initial centroids: evenly strided rows
+  const trainingStride = Math.max(1, Math.floor(count / KMEANS_MAX_TRAINING));
+  const training: number[] = [];
+  for (let idx = 0; idx < count; idx += trainingStride) training.push(idx);
+
+  const centroids = new Float32Array(nlist * dimensions);
+  for (let c = 0; c < nlist; c++) {
+    const source = training[Math.floor((c * training.length) / nlist)];
+    centroids.set(row(embeddings, source, dimensions), c * dimensions);
+    normalize(row(centroids, c, dimensions));
+  }
+
+  // Spherical k-means: assign to the most similar centroid, re-average, normalize
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = new Float32Array(nlist * dimensions);
+    const sizes = new Uint32Array(nlist);
+
+    for (const idx of training) {
+      const vector = row(embeddings, idx, dimensions);
+      const c = nearestCentroid(vector, centroids, nlist, dimensions);
+      sizes[c]++;
+      const offset = c * dimensions;
+      for (let i = 0; i < dimensions; i++) sums[offset + i] += vector[i];
+    }
+
+    for (let c = 0; c < nlist; c++) {
+      // Keep the previous centroid for empty clusters
+      if (sizes[c] === 0) continue;
+      const centroid = row(sums, c, dimensions);
+      normalize(centroid);
+      centroids.set(centroid, c * dimensions);
+    }
+  }
+
+  // Assign every vector to its final list
+  const assignments = new Uint32Array(count);
+  const listSizes = new Uint32Array(nlist);
+  for (let idx = 0; idx < count; idx++) {
+    const c = nearestCentroid(row(embeddings, idx, dimensions), centroids, nlist, dimensions);
+    assignments[idx] = c;
+    listSizes[c]++;
+  }
+
+  const listOffsets = [0];
+  for (let c = 0; c < nlist; c++) listOffsets.push(listOffsets[c] + listSizes[c]);
+
+  const listIds = new Uint32Array(count);
+  const cursor = listOffsets.slice(0, nlist);
+  for (let idx = 0; idx < count; idx++) {
+    listIds[cursor[assignments[idx]]++] = idx;
+  }
+
+  return { nlist, dimensions, count, centroids, listOffsets, listIds };
+}
+
+/**
+ * Score the vectors in the nprobe lists closest to the query and return the
+ * top K by cosine similarity. Extra lists are probed if the chosen ones hold
+ * fewer than topK vectors.
+ */
+export function searchIvfIndex(
+  index: IvfIndex,
+  embeddings: EmbeddingMatrix,
+  query: ArrayLike<number>,
+  topK: number,
+  nprobe: number = getDefaultNprobe()
+): Array<{ idx: number; score: number }> {
+  const { nlist, dimensions, centroids, listOffsets, listIds } = index;
+
+  const rankedLists = Array.from({ length: nlist }, (_, c) => ({
+    c,
+    score: cosineSimilarity(query, row(centroids, c, dimensions)),
+  })).sort((a, b) => b.score - a.score);
+
+  const results: Array<{ idx: number; score: number }> = [];
+  for (let probed = 0; probed < nlist; probed++) {
+    if (probed >= nprobe && results.length >= topK) break;
+
+    const { c } = rankedLists[probed];
+    for (let i = listOffsets[c]; i < listOffsets[c + 1]; i++) {
+      const idx = listIds[i];
+      results.push({
+        idx,
+        score: cosineSimilarity(query, row(embeddings, idx, dimensions)),
+      });
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, topK);
+}
+
+/**
+ * Persist an index next to a store's embeddings
+ */
+export async function writeIvfIndex(storePath: string, index: IvfIndex): Promise<void> {
+  const file: IvfIndexFile = {
+    type: "ivf",
+    nlist: index.nlist,
+    dimensions: index.dimensions,
+    count: index.count,
+    listOffsets: index.listOffsets,
+  };
+
+  const files: Array<[string, Buffer | string]> = [
+    [CENTROIDS_FILE, Buffer.from(index.centroids.buffer, index.centroids.byteOffset, index.centroids.byteLength)],
+    [LISTS_FILE, Buffer.from(index.listIds.buffer, index.listIds.byteOffset, index.listIds.byteLength)],
+    // index.json last so a partially written index is never loaded
+    [INDEX_FILE, JSON.stringify(file)],
+  ];
+  for (const [name, contents] of files) {
+    const target = path.join(storePath, name);
+    await writeFile(`${target}.tmp`, contents);
+    await rename(`${target}.tmp`, target);
+  }
+}
+
+/**
+ * Read a store's index, or null if it has none (or it is stale)
+ */
+export async function readIvfIndex(storePath: string, count: number): Promise<IvfIndex | null> {
+  const indexPath = path.join(storePath, INDEX_FILE);
+  if (!fs.existsSync(indexPath)) return null;
+
+  const file = JSON.parse(await readFile(indexPath, "utf-8")) as IvfIndexFile;
+  if (file.type !== "ivf" || file.count !== count) {
+    console.warn(`Ignoring stale vector index in ${storePath}`);
+    return null;
+  }
+
+  const centroids = await readFile(path.join(storePath, CENTROIDS_FILE));
+  const lists = await readFile(path.join(storePath, LISTS_FILE));
+  return {
+    nlist: file.nlist,
+    dimensions: file.dimensions,
+    count: file.count,
+    listOffsets: file.listOffsets,
+    centroids: new Float32Array(
+      centroids.buffer.slice(centroids.byteOffset, centroids.byteOffset + centroids.byteLength)
+    ),
+    listIds: new Uint32Array(lists.buffer.slice(lists.byteOffset, lists.byteOffset + lists.byteLength)),
+  };
+}
+
+/**
+ * Remove a store's index files
+ */
+export async function removeIvfIndex(storePath: string): Promise<void> {
+  for (const name of [INDEX_FILE, CENTROIDS_FILE, LISTS_FILE]) {
+    await rm(path.join(storePath, name), { force: true });
+  }
+}
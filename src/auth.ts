@@ -0,0 +1,343 @@
+import path from "path";
+import fs from "fs";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { createWorkspace, getWorkspace, isWorkspaceMember, listWorkspacesForUser } from "./workspaces";
+
+/**
+ * Authentication: user accounts that sign in with a password (session
+ * cookie) and per-workspace API keys for programmatic access. Records are
+ * JSON files under .auth/; session tokens and API keys are stored only as
+ * SHA-256 hashes, passwords as salted scrypt hashes.
+ */
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+export interface ApiKey {
+  id: string;
+  workspaceId: string;
+  name: string;
+  // First characters of the key, so users can tell keys apart
+  prefix: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+interface Session {
+  userId: string;
+  workspaceId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Who is making a request and the workspace it acts in:
+ * - "session": a signed-in user (cookie)
+ * - "api-key": an API key, bound to one workspace
+ * - "none": authentication is disabled (AUTH_DISABLED=true); everything is allowed
+ */
+export interface Principal {
+  method: "session" | "api-key" | "none";
+  workspaceId: string;
+  userId?: string;
+  // Set for "api-key" principals
+  apiKeyId?: string;
+}
+
+export const RegistrationSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(200),
+  password: z.string().min(8).max(200),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const LoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1),
+});
+
+export const SESSION_COOKIE = "session";
+
+// Workspace used for every request when authentication is disabled
+export const LOCAL_WORKSPACE_ID = "local";
+
+const AUTH_DIR = path.join(process.cwd(), ".auth");
+const USERS_DIR = path.join(AUTH_DIR, "users");
+const SESSIONS_DIR = path.join(AUTH_DIR, "sessions");
+const API_KEYS_DIR = path.join(AUTH_DIR, "api_keys");
+
+const API_KEY_PREFIX = "rk_";
+const DEFAULT_SESSION_TTL_HOURS = 24 * 7;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+/**
+ * Whether requests must be authenticated (set AUTH_DISABLED=true for local development)
+ */
+export function isAuthEnabled(): boolean {
+  return process.env.AUTH_DISABLED !== "true";
+}
+
+/**
+ * Whether the principal may run operator tasks such as re-indexing the
+ * default knowledge base: signed-in users whose email is listed in
+ * ADMIN_EMAILS (comma-separated), or anyone when authentication is disabled
+ */
+export function isAdmin(principal: Principal): boolean {
+  if (principal.method === "none") return true;
+  if (principal.method !== "session" || !principal.userId) return false;
+
+  const email = getUser(principal.userId)?.email;
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return email !== undefined && admins.includes(email);
+}
+
+/**
+ * Session lifetime in seconds (SESSION_TTL_HOURS, default one week)
+ */
+export function getSessionTtlSeconds(): number {
+  return (Number(process.env.SESSION_TTL_HOURS) || DEFAULT_SESSION_TTL_HOURS) * 3600;
+}
+
+/**
+ * Whether new accounts can sign up (AUTH_ALLOW_REGISTRATION, default on)
+ */
+export function isRegistrationAllowed(): boolean {
+  return process.env.AUTH_ALLOW_REGISTRATION !== "false";
+}
+
+/**
+ * Options for the session cookie
+ */
+export function getSessionCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: getSessionTtlSeconds(),
+  };
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function readJsonFile<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+}
+
+function writeJsonFile(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2));
+}
+
+function listJsonFiles<T>(dir: string): T[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => readJsonFile<T>(path.join(dir, file)))
+    .filter((value): value is T => value !== null);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * User fields safe to return to clients (no password hash)
+ */
+export function toUserResponse(user: User) {
+  return { id: user.id, email: user.email, name: user.name, createdAt: user.createdAt };
+}
+
+export function getUser(id: string): User | null {
+  if (!/^[a-zA-Z0-9-]{1,64}$/.test(id)) return null;
+  return readJsonFile<User>(path.join(USERS_DIR, `${id}.json`));
+}
+
+export function findUserByEmail(email: string): User | null {
+  const normalized = email.trim().toLowerCase();
+  return listJsonFiles<User>(USERS_DIR).find((user) => user.email === normalized) ?? null;
+}
+
+/**
+ * Create an account with its own personal workspace. Returns null if the
+ * email is already registered.
+ */
+export async function registerUser({
+  email,
+  password,
+  name,
+}: z.infer<typeof RegistrationSchema>): Promise<User | null> {
+  if (findUserByEmail(email)) return null;
+
+  const user: User = {
+    id: uuidv4(),
+    email,
+    name: name ?? email.split("@")[0],
+    passwordHash: await hashPassword(password),
+    createdAt: new Date().toISOString(),
+  };
+  writeJsonFile(path.join(USERS_DIR, `${user.id}.json`), user);
+  createWorkspace(`${user.name}'s workspace`, user.id);
+  console.log(`👤 Registered user ${user.email}`);
+  return user;
+}
+
+/**
+ * Check a user's password
+ */
+export async function verifyCredentials({ email, password }: z.infer<typeof LoginSchema>): Promise<User | null> {
+  const user = findUserByEmail(email);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+  return user;
+}
+
+/**
+ * Start a session in the user's first workspace and return its token
+ */
+export function createSession(userId: string): string {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const session: Session = {
+    userId,
+    workspaceId: listWorkspacesForUser(userId)[0]?.id ?? "",
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getSessionTtlSeconds() * 1000).toISOString(),
+  };
+  writeJsonFile(path.join(SESSIONS_DIR, `${hashToken(token)}.json`), session);
+  return token;
+}
+
+function readSession(token: string): Session | null {
+  const sessionPath = path.join(SESSIONS_DIR, `${hashToken(token)}.json`);
+  const session = readJsonFile<Session>(sessionPath);
+  if (session && Date.parse(session.expiresAt) <= Date.now()) {
+    fs.rmSync(sessionPath, { force: true });
+    return null;
+  }
+  return session;
+}
+
+export function deleteSession(token: string): void {
+  fs.rmSync(path.join(SESSIONS_DIR, `${hashToken(token)}.json`), { force: true });
+}
+
+/**
+ * Switch a session to another workspace the user belongs to
+ */
+export function switchSessionWorkspace(token: string, workspaceId: string): boolean {
+  const session = readSession(token);
+  if (!session || !isWorkspaceMember(workspaceId, session.userId)) return false;
+  writeJsonFile(path.join(SESSIONS_DIR, `${hashToken(token)}.json`), { ...session, workspaceId });
+  return true;
+}
+
+/**
+ * Create an API key for a workspace. The key itself is only returned here.
+ */
+export function createApiKey(workspaceId: string, name: string, createdBy: string): { key: string; apiKey: ApiKey } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const apiKey: ApiKey = {
+    id: uuidv4(),
+    workspaceId,
+    name,
+    prefix: key.substring(0, API_KEY_PREFIX.length + 6),
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  writeJsonFile(path.join(API_KEYS_DIR, `${hashToken(key)}.json`), apiKey);
+  return { key, apiKey };
+}
+
+export function listApiKeys(workspaceId: string): ApiKey[] {
+  return listJsonFiles<ApiKey>(API_KEYS_DIR)
+    .filter((apiKey) => apiKey.workspaceId === workspaceId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revoke an API key by id; returns false if the workspace has no such key
+ */
+export function revokeApiKey(workspaceId: string, keyId: string): boolean {
+  if (!fs.existsSync(API_KEYS_DIR)) return false;
+  for (const file of fs.readdirSync(API_KEYS_DIR)) {
+    const keyPath = path.join(API_KEYS_DIR, file);
+    const apiKey = readJsonFile<ApiKey>(keyPath);
+    if (apiKey?.id === keyId && apiKey.workspaceId === workspaceId) {
+      fs.rmSync(keyPath, { force: true });
+      return true;
+    }
+  }
+  return false;
+}
+
+function authenticateApiKey(key: string): Principal | null {
+  const keyPath = path.join(API_KEYS_DIR, `${hashToken(key)}.json`);
+  const apiKey = readJsonFile<ApiKey>(keyPath);
+  if (!apiKey || !getWorkspace(apiKey.workspaceId)) return null;
+
+  writeJsonFile(keyPath, { ...apiKey, lastUsedAt: new Date().toISOString() });
+  return { method: "api-key", workspaceId: apiKey.workspaceId, apiKeyId: apiKey.id };
+}
+
+/**
+ * Read a cookie from the Cookie header
+ */
+export function getCookie(headers: Headers, name: string): string | undefined {
+  for (const part of (headers.get("cookie") || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+/**
+ * Identify the caller from an API key (`Authorization: Bearer rk_...` or
+ * `X-API-Key`) or the session cookie. Returns null if the request is not
+ * authenticated.
+ */
+export async function authenticate(request: { headers: Headers }): Promise<Principal | null> {
+  if (!isAuthEnabled()) {
+    return { method: "none", workspaceId: LOCAL_WORKSPACE_ID };
+  }
+
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const apiKey = bearer ?? request.headers.get("x-api-key");
+  if (apiKey) return authenticateApiKey(apiKey);
+
+  const token = getCookie(request.headers, SESSION_COOKIE);
+  const session = token ? readSession(token) : null;
+  if (!session || !getUser(session.userId)) return null;
+
+  // The workspace may have been left or deleted since the session started
+  const workspaceId = isWorkspaceMember(session.workspaceId, session.userId)
+    ? session.workspaceId
+    : listWorkspacesForUser(session.userId)[0]?.id;
+  if (!workspaceId) return null;
+
+  return { method: "session", workspaceId, userId: session.userId };
+}
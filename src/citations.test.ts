@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { resolveCitations, verifyQuote } from "./citations";
+
+const chunk =
+  "Permanent staff are entitled to 18 days of annual leave per calendar year. " +
+  "After five years of service, the entitlement rises to 22 days.";
+
+describe("verifyQuote", () => {
+  it("verifies an exact quote", () => {
+    expect(verifyQuote("entitled to 18 days of annual leave", chunk)).toEqual({ status: "verified", score: 1 });
+  });
+
+  it("ignores case, whitespace and punctuation", () => {
+    expect(verifyQuote("ENTITLED to 18 days of annual-leave\nper calendar year", chunk).status).toBe("verified");
+  });
+
+  it("accepts a quote with a small change as approximate", () => {
+    const result = verifyQuote(
+      "Permanent staff are entitled to 18 days of annual leave per calendar year and after five years of service",
+      chunk
+    );
+    expect(result.status).toBe("approximate");
+    expect(result.score).toBeGreaterThanOrEqual(0.8);
+    expect(result.score).toBeLessThan(1);
+  });
+
+  it("rejects a quote that is not in the chunk", () => {
+    const result = verifyQuote("Staff may carry forward 10 days", chunk);
+    expect(result.status).toBe("unverified");
+    expect(result.score).toBeLessThan(0.8);
+  });
+
+  it("rejects an empty quote", () => {
+    expect(verifyQuote(" ... ", chunk)).toEqual({ status: "unverified", score: 0 });
+  });
+});
+
+describe("resolveCitations", () => {
+  const sources = [
+    { pageContent: "Unrelated text.", metadata: { source: "a.pdf", chunkIndex: 4, pageNumber: 2 } },
+    {
+      pageContent: chunk,
+      metadata: { source: "policy.md", fileName: "policy.md", storeId: "s1", chunkIndex: 9, headings: ["Leave", "Annual leave"] },
+    },
+  ];
+
+  it("ties each citation to the chunk it names", () => {
+    const [citation] = resolveCitations([{ sourceNumber: 2, text: "rises to 22 days" }], sources, "flag");
+    expect(citation).toMatchObject({
+      source: "policy.md",
+      storeId: "s1",
+      chunkIndex: 9,
+      section: "Leave > Annual leave",
+      verification: { status: "verified" },
+    });
+  });
+
+  it("drops citations to sources that were not in the context", () => {
+    expect(resolveCitations([{ sourceNumber: 3, text: "rises to 22 days" }], sources, "flag")).toEqual([]);
+  });
+
+  it("flags or drops unverified quotes according to the policy", () => {
+    const citations = [{ sourceNumber: 1, text: "rises to 22 days" }];
+    expect(resolveCitations(citations, sources, "flag")[0]).toMatchObject({
+      pageNumber: 2,
+      pageEnd: 2,
+      verification: { status: "unverified" },
+    });
+    expect(resolveCitations(citations, sources, "drop")).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Resolve the model's citations to the exact retrieved chunk they refer to
+ * and check that each quoted span actually occurs in that chunk.
+ */
+
+export interface RawCitation {
+  sourceNumber: number;
+  text: string;
+}
+
+export interface CitationVerification {
+  // verified: the quote occurs in the chunk (ignoring case/whitespace/punctuation)
+  // approximate: most of the quote's word pairs occur in the chunk
+  // unverified: the quote could not be found in the chunk
+  status: "verified" | "approximate" | "unverified";
+  score: number;
+}
+
+export interface Citation {
+  text: string;
+  source: string;
+  fileName?: string;
+  storeId?: string;
+  chunkIndex: number;
+  pageNumber?: number;
+  pageEnd?: number;
+  // Heading path for unpaginated formats, e.g. "Leave > Annual leave"
+  section?: string;
+  verification: CitationVerification;
+}
+
+type SourceDocument = {
+  pageContent: string;
+  metadata: Record<string, unknown>;
+};
+
+// Minimum share of quote word pairs found in the chunk to count as approximate
+const APPROXIMATE_THRESHOLD = 0.8;
+
+/**
+ * Whether unverified citations are kept (flagged) or dropped (CITATION_POLICY, default "flag")
+ */
+export function getCitationPolicy(): "flag" | "drop" {
+  return process.env.CITATION_POLICY === "drop" ? "drop" : "flag";
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function wordPairs(words: string[]): string[] {
+  if (words.length < 2) return words;
+  return words.slice(1).map((word, idx) => `${words[idx]} ${word}`);
+}
+
+/**
+ * Check a quoted span against the text of the chunk it cites
+ */
+export function verifyQuote(quote: string, chunkText: string): CitationVerification {
+  const normalizedQuote = normalizeText(quote);
+  const normalizedChunk = normalizeText(chunkText);
+
+  if (!normalizedQuote) {
+    return { status: "unverified", score: 0 };
+  }
+  if (normalizedChunk.includes(normalizedQuote)) {
+    return { status: "verified", score: 1 };
+  }
+
+  const chunkPairs = new Set(wordPairs(normalizedChunk.split(" ")));
+  const quotePairs = wordPairs(normalizedQuote.split(" "));
+  const matched = quotePairs.filter((pair) => chunkPairs.has(pair)).length;
+  const score = matched / quotePairs.length;
+
+  return {
+    status: score >= APPROXIMATE_THRESHOLD ? "approximate" : "unverified",
+    score,
+  };
+}
+
+/**
+ * Map each raw citation to its [Source N] document and verify the quote.
+ * Citations pointing at a source that was not in the context are dropped;
+ * unverified quotes are flagged, or dropped when the policy says so.
+ */
+export function resolveCitations(
+  citations: RawCitation[],
+  sources: SourceDocument[],
+  policy: "flag" | "drop" = getCitationPolicy()
+): Citation[] {
+  const resolved: Citation[] = [];
+
+  for (const citation of citations) {
+    const doc = sources[citation.sourceNumber - 1];
+    if (!doc) {
+      console.warn(`Dropping citation to unknown source ${citation.sourceNumber}`);
+      continue;
+    }
+
+    const verification = verifyQuote(citation.text, doc.pageContent);
+    if (verification.status === "unverified" && policy === "drop") {
+      continue;
+    }
+
+    const pageNumber = (doc.metadata.pageNumber as number | undefined) || undefined;
+    const headings = doc.metadata.headings as string[] | undefined;
+    resolved.push({
+      text: citation.text,
+      source: (doc.metadata.source as string) || "unknown",
+      fileName: doc.metadata.fileName as string | undefined,
+      storeId: doc.metadata.storeId as string | undefined,
+      chunkIndex: (doc.metadata.chunkIndex as number | undefined) ?? citation.sourceNumber - 1,
+      pageNumber,
+      pageEnd: pageNumber ? (doc.metadata.pageEnd as number | undefined) || pageNumber : undefined,
+      section: headings && headings.length > 0 ? headings.join(" > ") : undefined,
+      verification,
+    });
+  }
+
+  return resolved;
+}
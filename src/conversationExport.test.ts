@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { exportConversation } from "./conversationExport";
+import type { Conversation } from "./conversations";
+
+const SCRIPT = `<script>alert("x")</script>`;
+
+const conversation: Conversation = {
+  id: "c1",
+  workspaceId: "default",
+  title: `Leave & <b>"pay"</b>`,
+  storeIds: ["s1"],
+  messages: [
+    { id: "m1", role: "user", content: `What about ${SCRIPT}?`, timestamp: "2026-03-04T10:00:00Z" },
+    {
+      id: "m2",
+      role: "assistant",
+      content: `18 days <img src=x onerror='alert(1)'>`,
+      confidence: "high",
+      citations: [
+        {
+          text: `entitled to 18 days ${SCRIPT}`,
+          source: "policy.md",
+          fileName: `<policy>.md`,
+          storeId: "s1",
+          chunkIndex: 0,
+          section: "Leave > Annual",
+          verification: { status: "verified", score: 1 },
+        },
+      ],
+      documents: [{ storeId: "s1", fileName: `<policy>.md`, contentHash: "abcdef0123456789", indexedAt: "2026-03-01" }],
+      timestamp: "2026-03-04T10:00:05Z",
+    },
+    { id: "m3", role: "user", content: "And sick leave?", timestamp: "2026-03-04T10:01:00Z" },
+    {
+      id: "m4",
+      role: "assistant",
+      content: "Two days without a certificate.",
+      documents: [],
+      timestamp: "2026-03-04T10:01:05Z",
+    },
+  ],
+  createdAt: "2026-03-04T10:00:00Z",
+  updatedAt: "2026-03-04T10:01:05Z",
+};
+
+describe("exportConversation", () => {
+  it("escapes every piece of conversation text in HTML", () => {
+    const html = exportConversation(conversation, { format: "html" })?.content ?? "";
+
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("<b>");
+    expect(html).not.toContain("<policy>");
+    expect(html).toContain(`<title>Leave &amp; &lt;b&gt;&quot;pay&quot;&lt;/b&gt;</title>`);
+    expect(html).toContain("&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;");
+    expect(html).toContain("onerror=&#39;alert(1)&#39;");
+    expect(html).toContain("&lt;policy&gt;.md, Leave &gt; Annual");
+  });
+
+  it("lists the document versions the answers were drawn from", () => {
+    const markdown = exportConversation(conversation, { format: "markdown" })?.content ?? "";
+    expect(markdown).toContain("- <policy>.md · version abcdef012345 · indexed 2026-03-01");
+  });
+
+  it("exports a single answer with its question", () => {
+    const exported = exportConversation(conversation, { format: "json", messageId: "m4" });
+    const data = JSON.parse(exported?.content ?? "{}");
+
+    expect(data.messages.map((message: { content: string }) => message.content)).toEqual([
+      "And sick leave?",
+      "Two days without a certificate.",
+    ]);
+    expect(data.documents).toEqual([]);
+  });
+
+  it("returns null for an unknown or non-answer message", () => {
+    expect(exportConversation(conversation, { format: "json", messageId: "missing" })).toBeNull();
+    expect(exportConversation(conversation, { format: "json", messageId: "m1" })).toBeNull();
+  });
+
+  it("names the file after the title", () => {
+    expect(exportConversation(conversation, { format: "html" })?.fileName).toBe("leave-b-pay-b.html");
+  });
+});
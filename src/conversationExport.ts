@@ -0,0 +1,266 @@
+import type { Citation } from "./citations";
+import {
+  getDocumentVersions,
+  type Conversation,
+  type ConversationMessage,
+  type DocumentVersion,
+} from "./conversations";
+
+/**
+ * Render a saved conversation, or a single answer from it, as a report:
+ * Markdown, JSON or a self-contained printable HTML page (print it to get a
+ * PDF). Each answer lists its confidence and numbered sources; the footer
+ * records when the report was made and which version of each document the
+ * answers were drawn from, as recorded when each answer was saved.
+ */
+export const EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ConversationExport {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+interface ExportData {
+  title: string;
+  conversationId: string;
+  exportedAt: string;
+  messages: ConversationMessage[];
+  documents: DocumentVersion[];
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+/**
+ * The document versions the exported answers drew on, as recorded with each
+ * answer. Answers saved before versions were recorded fall back to the
+ * stores' current version. A document re-indexed between answers is listed
+ * once per version.
+ */
+function getAnswerDocumentVersions(messages: ConversationMessage[]): DocumentVersion[] {
+  const versions = new Map<string, DocumentVersion>();
+  for (const message of messages) {
+    if (message.role !== "assistant") continue;
+    const documents =
+      message.documents ??
+      getDocumentVersions([
+        ...(message.storeIds ?? []),
+        ...(message.citations ?? []).flatMap((citation) => (citation.storeId ? [citation.storeId] : [])),
+      ]);
+    for (const document of documents) {
+      versions.set(`${document.storeId}\0${document.contentHash ?? ""}\0${document.indexedAt ?? ""}`, document);
+    }
+  }
+  return [...versions.values()];
+}
+
+/**
+ * Where a citation points: "file.pdf, pp. 3–4" or "file.md, Leave > Annual leave"
+ */
+function citationLocation(citation: Citation): string {
+  const name = citation.fileName || citation.source;
+  if (citation.pageNumber) {
+    const pages =
+      citation.pageEnd && citation.pageEnd !== citation.pageNumber
+        ? `pp. ${citation.pageNumber}–${citation.pageEnd}`
+        : `p. ${citation.pageNumber}`;
+    return `${name}, ${pages}`;
+  }
+  return citation.section ? `${name}, ${citation.section}` : name;
+}
+
+function documentVersionLabel(document: DocumentVersion): string {
+  const parts = [document.fileName];
+  if (document.contentHash) parts.push(`version ${document.contentHash.substring(0, 12)}`);
+  if (document.indexedAt) parts.push(`indexed ${document.indexedAt}`);
+  return parts.join(" · ");
+}
+
+function toMarkdown({ title, conversationId, exportedAt, messages, documents }: ExportData): string {
+  const lines = [`# ${title}`, ""];
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      lines.push(`## Question`, "", message.content, "");
+      continue;
+    }
+
+    lines.push(`## Answer`, "");
+    if (message.confidence) lines.push(`**Confidence:** ${message.confidence}`, "");
+    lines.push(message.content, "");
+
+    if (message.citations && message.citations.length > 0) {
+      lines.push(`### Sources`, "");
+      message.citations.forEach((citation, idx) => {
+        lines.push(`${idx + 1}. **${citationLocation(citation)}** (${citation.verification.status})`, "");
+        lines.push(`   > ${citation.text.replace(/\s+/g, " ").trim()}`, "");
+      });
+    }
+  }
+
+  lines.push("---", "", `Exported ${exportedAt} from conversation ${conversationId}.`);
+  if (documents.length > 0) {
+    lines.push("", "Documents:", "", ...documents.map((document) => `- ${documentVersionLabel(document)}`));
+  }
+  return lines.join("\n") + "\n";
+}
+
+function toJson({ title, conversationId, exportedAt, messages, documents }: ExportData): string {
+  return JSON.stringify(
+    {
+      conversationId,
+      title,
+      exportedAt,
+      messages: messages.map((message) => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        ...(message.role === "assistant" && {
+          confidence: message.confidence,
+          sources: (message.citations ?? []).map((citation, idx) => ({
+            number: idx + 1,
+            fileName: citation.fileName || citation.source,
+            storeId: citation.storeId,
+            pageNumber: citation.pageNumber,
+            pageEnd: citation.pageEnd,
+            section: citation.section,
+            snippet: citation.text,
+            verification: citation.verification.status,
+          })),
+        }),
+      })),
+      documents,
+    },
+    null,
+    2
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLES = `
+  body { font-family: Georgia, serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.5; }
+  h1 { font-size: 1.6rem; border-bottom: 2px solid #1e293b; padding-bottom: 0.3rem; }
+  h2 { font-size: 1.1rem; margin-top: 1.5rem; }
+  .question { background: #f1f5f9; padding: 0.6rem 0.9rem; border-left: 4px solid #2563eb; }
+  .confidence { font-size: 0.85rem; color: #475569; }
+  .answer { white-space: pre-wrap; }
+  ol.sources { font-size: 0.9rem; }
+  ol.sources li { margin-bottom: 0.6rem; page-break-inside: avoid; }
+  blockquote { margin: 0.3rem 0 0; padding-left: 0.8rem; border-left: 3px solid #cbd5e1; color: #475569; }
+  footer { margin-top: 2rem; border-top: 1px solid #cbd5e1; padding-top: 0.5rem; font-size: 0.8rem; color: #64748b; }
+  .print { position: fixed; top: 1rem; right: 1rem; }
+  @media print { .print { display: none; } body { margin: 0; } }
+`;
+
+function toHtml({ title, conversationId, exportedAt, messages, documents }: ExportData): string {
+  const body = messages
+    .map((message) => {
+      if (message.role === "user") {
+        return `<h2>Question</h2>\n<p class="question">${escapeHtml(message.content)}</p>`;
+      }
+
+      const sources = (message.citations ?? [])
+        .map(
+          (citation) =>
+            `<li><strong>${escapeHtml(citationLocation(citation))}</strong> (${citation.verification.status})` +
+            `<blockquote>${escapeHtml(citation.text)}</blockquote></li>`
+        )
+        .join("\n");
+      return [
+        `<h2>Answer</h2>`,
+        message.confidence ? `<p class="confidence">Confidence: ${message.confidence}</p>` : "",
+        `<div class="answer">${escapeHtml(message.content)}</div>`,
+        sources ? `<h3>Sources</h3>\n<ol class="sources">\n${sources}\n</ol>` : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n");
+
+  const documentList = documents.length
+    ? `<p>Documents:</p><ul>${documents.map((document) => `<li>${escapeHtml(documentVersionLabel(document))}</li>`).join("")}</ul>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<h1>${escapeHtml(title)}</h1>
+${body}
+<footer>
+<p>Exported ${escapeHtml(exportedAt)} from conversation ${escapeHtml(conversationId)}.</p>
+${documentList}
+</footer>
+</body>
+</html>
+`;
+}
+
+/**
+ * A file name safe for Content-Disposition, from the conversation title
+ */
+function exportFileName(title: string, format: ExportFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 60);
+  return `${slug || "conversation"}.${FILE_EXTENSIONS[format]}`;
+}
+
+/**
+ * Export a conversation. With `messageId`, only that answer (and the
+ * question before it) is exported; returns null if the conversation has no
+ * such answer.
+ */
+export function exportConversation(
+  conversation: Conversation,
+  { format, messageId }: { format: ExportFormat; messageId?: string }
+): ConversationExport | null {
+  let messages = conversation.messages;
+  if (messageId) {
+    const idx = messages.findIndex((message) => message.id === messageId && message.role === "assistant");
+    if (idx === -1) return null;
+    messages = messages.slice(idx > 0 && messages[idx - 1].role === "user" ? idx - 1 : idx, idx + 1);
+  }
+
+  const data: ExportData = {
+    title: conversation.title,
+    conversationId: conversation.id,
+    exportedAt: new Date().toISOString(),
+    messages,
+    documents: getAnswerDocumentVersions(messages),
+  };
+
+  const render = { markdown: toMarkdown, json: toJson, html: toHtml }[format];
+  return {
+    content: render(data),
+    contentType: CONTENT_TYPES[format],
+    fileName: exportFileName(conversation.title, format),
+  };
+}
@@ -0,0 +1,227 @@
+import path from "path";
+import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+import type { Principal } from "./auth";
+import type { AnswerValidation } from "./agent";
+import type { Citation } from "./citations";
+import { loadVectorStoreMetadata } from "./vectorStore";
+import { ownsResource } from "./workspaces";
+
+/**
+ * Saved conversations: every chat turn is recorded with the answer's
+ * citations, confidence and the stores it was asked against, so a thread can
+ * be reopened and continued later. Stored as one JSON file per conversation.
+ */
+
+/**
+ * The indexed version of a document an answer drew on
+ */
+export interface DocumentVersion {
+  storeId: string;
+  fileName: string;
+  // SHA-256 of the uploaded file
+  contentHash?: string;
+  indexedAt?: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  citations?: Citation[];
+  confidence?: "high" | "medium" | "low";
+  validation?: AnswerValidation;
+  // Stores the question was asked against
+  storeIds?: string[];
+  // Trace of the request that produced the answer (kept in .traces/ with TRACE_PERSIST=true)
+  traceId?: string;
+  // Version of each queried or cited document when the answer was given
+  documents?: DocumentVersion[];
+  timestamp: string;
+}
+
+export interface Conversation {
+  id: string;
+  workspaceId: string;
+  // Conversations started with an API key have no user
+  userId?: string;
+  title: string;
+  // Stores used by the latest turn, restored when the conversation is reopened
+  storeIds: string[];
+  profileId?: string;
+  messages: ConversationMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ConversationSummary = Omit<Conversation, "messages"> & { messageCount: number };
+
+const CONVERSATIONS_DIR = path.join(process.cwd(), ".conversations");
+
+const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const DEFAULT_TITLE = "New conversation";
+const MAX_TITLE_LENGTH = 80;
+
+function conversationPath(id: string): string {
+  return path.join(CONVERSATIONS_DIR, `${id}.json`);
+}
+
+function writeConversation(conversation: Conversation): void {
+  fs.mkdirSync(CONVERSATIONS_DIR, { recursive: true });
+  const target = conversationPath(conversation.id);
+  fs.writeFileSync(`${target}.tmp`, JSON.stringify(conversation, null, 2));
+  fs.renameSync(`${target}.tmp`, target);
+}
+
+export function toConversationSummary({ messages, ...conversation }: Conversation): ConversationSummary {
+  return { ...conversation, messageCount: messages.length };
+}
+
+/**
+ * A title from the first question, cut at a word boundary
+ */
+function titleFrom(question: string): string {
+  const text = question.replace(/\s+/g, " ").trim();
+  if (text.length <= MAX_TITLE_LENGTH) return text || DEFAULT_TITLE;
+  const cut = text.substring(0, MAX_TITLE_LENGTH);
+  return `${cut.substring(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : MAX_TITLE_LENGTH)}…`;
+}
+
+export function getConversation(id: string): Conversation | null {
+  if (!CONVERSATION_ID_PATTERN.test(id) || !fs.existsSync(conversationPath(id))) return null;
+  return JSON.parse(fs.readFileSync(conversationPath(id), "utf-8")) as Conversation;
+}
+
+/**
+ * Whether the principal may see a conversation: its own workspace, and its
+ * own user for signed-in users
+ */
+export function canAccessConversation(principal: Principal, conversation: Conversation): boolean {
+  return (
+    ownsResource(principal, conversation.workspaceId) &&
+    (principal.method === "none" || conversation.userId === principal.userId)
+  );
+}
+
+/**
+ * The principal's conversations, most recently updated first
+ */
+export function listConversations(principal: Principal): ConversationSummary[] {
+  if (!fs.existsSync(CONVERSATIONS_DIR)) return [];
+  return fs
+    .readdirSync(CONVERSATIONS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => getConversation(path.basename(file, ".json")))
+    .filter(
+      (conversation): conversation is Conversation =>
+        conversation !== null && canAccessConversation(principal, conversation)
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toConversationSummary);
+}
+
+export function createConversation(
+  principal: Principal,
+  { title, storeIds = [], profileId }: { title?: string; storeIds?: string[]; profileId?: string } = {}
+): Conversation {
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    id: uuidv4(),
+    workspaceId: principal.workspaceId,
+    userId: principal.userId,
+    title: title || DEFAULT_TITLE,
+    storeIds,
+    profileId,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeConversation(conversation);
+  return conversation;
+}
+
+export function updateConversation(
+  id: string,
+  changes: Partial<Pick<Conversation, "title" | "storeIds" | "profileId">>
+): Conversation | null {
+  const existing = getConversation(id);
+  if (!existing) return null;
+
+  const conversation: Conversation = { ...existing, ...changes, id, updatedAt: new Date().toISOString() };
+  writeConversation(conversation);
+  return conversation;
+}
+
+export function deleteConversation(id: string): boolean {
+  if (!getConversation(id)) return false;
+  fs.rmSync(conversationPath(id));
+  return true;
+}
+
+/**
+ * The current indexed version of each store (stores that no longer exist are skipped)
+ */
+export function getDocumentVersions(storeIds: Iterable<string>): DocumentVersion[] {
+  return [...new Set(storeIds)].flatMap((storeId) => {
+    const metadata = loadVectorStoreMetadata(storeId);
+    if (!metadata) return [];
+    return [
+      {
+        storeId,
+        fileName: (metadata.displayName as string | undefined) ?? (metadata.fileName as string | undefined) ?? storeId,
+        contentHash: metadata.contentHash as string | undefined,
+        indexedAt: metadata.indexedAt as string | undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Record a question and its answer, with the version of each document the
+ * answer drew on. A conversation still carrying the
+ * default title is named after its first question.
+ */
+export function appendConversationTurn(
+  id: string,
+  {
+    question,
+    answer,
+    storeIds,
+    profileId,
+  }: {
+    question: string;
+    answer: Omit<ConversationMessage, "id" | "role" | "timestamp" | "storeIds" | "documents">;
+    storeIds: string[];
+    profileId?: string;
+  }
+): Conversation | null {
+  const existing = getConversation(id);
+  if (!existing) return null;
+
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    ...existing,
+    title: existing.messages.length === 0 && existing.title === DEFAULT_TITLE ? titleFrom(question) : existing.title,
+    storeIds,
+    profileId,
+    messages: [
+      ...existing.messages,
+      { id: uuidv4(), role: "user", content: question, storeIds, timestamp: now },
+      {
+        ...answer,
+        id: uuidv4(),
+        role: "assistant",
+        storeIds,
+        documents: getDocumentVersions([
+          ...storeIds,
+          ...(answer.citations ?? []).flatMap((citation) => (citation.storeId ? [citation.storeId] : [])),
+        ]),
+        timestamp: now,
+      },
+    ],
+    updatedAt: now,
+  };
+  writeConversation(conversation);
+  return conversation;
+}
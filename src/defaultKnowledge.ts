@@ -0,0 +1,246 @@
+import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+import { readFile, writeFile, rename } from "fs/promises";
+import { getEmbeddingModelId } from "./providers";
+import { getDocumentFormat } from "./loaders";
+import {
+  computeContentHash,
+  createVectorStore,
+  deleteVectorStore,
+  loadVectorStore,
+  loadVectorStoreMetadata,
+} from "./vectorStore";
+
+/**
+ * Default knowledge base: every supported document in src/data gets its own
+ * vector store. A manifest of file hashes records what was indexed, so a sync
+ * only re-embeds files that changed, removes stores of deleted files and
+ * picks up new ones.
+ */
+export interface KnowledgeFileEntry {
+  storeId: string;
+  contentHash: string;
+  size: number;
+  mtimeMs: number;
+  embeddingModel: string;
+  indexedAt: string;
+}
+
+export interface KnowledgeManifest {
+  version: number;
+  syncedAt: string | null;
+  files: Record<string, KnowledgeFileEntry>;
+}
+
+export interface KnowledgeSyncResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+  failed: Array<{ fileName: string; error: string }>;
+}
+
+const MANIFEST_VERSION = 1;
+
+const DATA_DIR = path.join(process.cwd(), "src", "data");
+const MANIFEST_PATH = path.join(process.cwd(), ".vector_stores", "default_knowledge.json");
+
+// Wait for a burst of file events to settle before syncing
+const WATCH_DEBOUNCE_MS = 1000;
+
+let manifest: KnowledgeManifest | null = null;
+let syncPromise: Promise<KnowledgeSyncResult> | null = null;
+let resyncRequested = false;
+let initialSync: Promise<KnowledgeSyncResult> | null = null;
+let watcher: fs.FSWatcher | null = null;
+
+/**
+ * Whether src/data is watched for changes (DEFAULT_KNOWLEDGE_WATCH, default on)
+ */
+function isWatchEnabled(): boolean {
+  return process.env.DEFAULT_KNOWLEDGE_WATCH !== "false";
+}
+
+/**
+ * Store id for a file in src/data: a readable slug of its name plus a short
+ * hash of the name, so names that slug alike ("a b.pdf", "a_b.pdf") differ
+ */
+function storeIdFor(fileName: string): string {
+  const hash = createHash("sha256").update(fileName).digest("hex").substring(0, 8);
+  return `default_${fileName.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}_${hash}`;
+}
+
+async function readManifest(): Promise<KnowledgeManifest> {
+  if (manifest) return manifest;
+
+  if (fs.existsSync(MANIFEST_PATH)) {
+    const stored = JSON.parse(await readFile(MANIFEST_PATH, "utf-8")) as KnowledgeManifest;
+    if (stored.version === MANIFEST_VERSION) {
+      manifest = stored;
+      return manifest;
+    }
+  }
+  manifest = { version: MANIFEST_VERSION, syncedAt: null, files: {} };
+  return manifest;
+}
+
+async function writeManifest(updated: KnowledgeManifest): Promise<void> {
+  await writeFile(`${MANIFEST_PATH}.tmp`, JSON.stringify(updated, null, 2));
+  await rename(`${MANIFEST_PATH}.tmp`, MANIFEST_PATH);
+}
+
+/**
+ * Bring the default knowledge stores in line with the files in src/data
+ */
+async function runSync(): Promise<KnowledgeSyncResult> {
+  const current = await readManifest();
+  const result: KnowledgeSyncResult = { added: [], updated: [], removed: [], unchanged: [], failed: [] };
+  const embeddingModel = getEmbeddingModelId();
+
+  const fileNames = fs.existsSync(DATA_DIR)
+    ? fs.readdirSync(DATA_DIR).filter((file) => getDocumentFormat(file) !== null)
+    : [];
+  const files: Record<string, KnowledgeFileEntry> = {};
+
+  for (const fileName of fileNames) {
+    const filePath = path.join(DATA_DIR, fileName);
+    const previous = current.files[fileName];
+
+    try {
+      const stat = fs.statSync(filePath);
+      // Manifests written before ids were hashed may give two files one store
+      const storeIdTaken = Object.values(files).some((entry) => entry.storeId === previous?.storeId);
+      const storeId = previous && !storeIdTaken ? previous.storeId : storeIdFor(fileName);
+      const storeExists = (await loadVectorStore(storeId)) !== null;
+
+      // Size and mtime unchanged: trust the recorded hash without re-reading the file
+      const contentHash =
+        previous && previous.size === stat.size && previous.mtimeMs === stat.mtimeMs
+          ? previous.contentHash
+          : computeContentHash(fs.readFileSync(filePath));
+
+      // Stores indexed before the manifest existed are adopted if their content matches
+      const indexedHash = previous?.contentHash ?? loadVectorStoreMetadata(storeId)?.contentHash;
+      const indexedModel = previous?.embeddingModel ?? loadVectorStoreMetadata(storeId)?.embeddingModel;
+
+      if (storeExists && indexedHash === contentHash && indexedModel === embeddingModel) {
+        files[fileName] = {
+          storeId,
+          contentHash,
+          size: stat.size,
+          mtimeMs: stat.mtimeMs,
+          embeddingModel,
+          indexedAt: previous?.indexedAt ?? new Date().toISOString(),
+        };
+        result.unchanged.push(fileName);
+        continue;
+      }
+
+      console.log(`🔄 ${previous || storeExists ? "Re-indexing" : "Indexing"} default knowledge: ${fileName}`);
+      const { pageCount, chunkCount } = await createVectorStore(filePath, storeId);
+      console.log(`✅ Indexed ${fileName} as ${storeId} (${pageCount} pages, ${chunkCount} chunks)`);
+
+      files[fileName] = {
+        storeId,
+        contentHash,
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        embeddingModel,
+        indexedAt: new Date().toISOString(),
+      };
+      (previous || storeExists ? result.updated : result.added).push(fileName);
+    } catch (err) {
+      console.error(`❌ Error processing document ${fileName}:`, err);
+      result.failed.push({ fileName, error: err instanceof Error ? err.message : String(err) });
+      // Keep serving the previous version of the file, if there was one
+      if (previous) files[fileName] = previous;
+    }
+  }
+
+  for (const [fileName, entry] of Object.entries(current.files)) {
+    if (fileNames.includes(fileName)) continue;
+    if (!Object.values(files).some((kept) => kept.storeId === entry.storeId)) {
+      deleteVectorStore(entry.storeId);
+    }
+    result.removed.push(fileName);
+    console.log(`🗑️ Removed default knowledge store for deleted file ${fileName}`);
+  }
+
+  manifest = { version: MANIFEST_VERSION, syncedAt: new Date().toISOString(), files };
+  await writeManifest(manifest);
+
+  console.log(
+    `📚 Default knowledge base synced: ${Object.keys(files).length} document(s) ` +
+      `(${result.added.length} added, ${result.updated.length} updated, ${result.removed.length} removed)`
+  );
+  return result;
+}
+
+/**
+ * Sync the default knowledge base now. Concurrent calls share the running
+ * sync; a call made while one is running schedules one more pass after it.
+ */
+export async function syncDefaultKnowledge(): Promise<KnowledgeSyncResult> {
+  if (syncPromise) {
+    resyncRequested = true;
+    return syncPromise;
+  }
+
+  syncPromise = (async () => {
+    try {
+      let result = await runSync();
+      while (resyncRequested) {
+        resyncRequested = false;
+        result = await runSync();
+      }
+      return result;
+    } finally {
+      syncPromise = null;
+    }
+  })();
+  return syncPromise;
+}
+
+function startWatching(): void {
+  if (watcher || !isWatchEnabled() || !fs.existsSync(DATA_DIR)) return;
+
+  let timer: NodeJS.Timeout | null = null;
+  try {
+    watcher = fs.watch(DATA_DIR, () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        syncDefaultKnowledge().catch((err) =>
+          console.error("❌ Error syncing default knowledge base:", err)
+        );
+      }, WATCH_DEBOUNCE_MS);
+    });
+    watcher.unref();
+  } catch (err) {
+    console.warn("Could not watch src/data for changes:", err);
+  }
+}
+
+/**
+ * Make sure the default knowledge base has been synced at least once in
+ * this process, and start watching src/data for changes
+ */
+export async function ensureDefaultKnowledge(): Promise<KnowledgeManifest> {
+  startWatching();
+  initialSync ??= syncDefaultKnowledge();
+  try {
+    await initialSync;
+  } catch (err) {
+    // Let the next request try again
+    initialSync = null;
+    throw err;
+  }
+  return readManifest();
+}
+
+/**
+ * The manifest as last written
+ */
+export async function getDefaultKnowledgeManifest(): Promise<KnowledgeManifest> {
+  return readManifest();
+}
@@ -0,0 +1,324 @@
+import path from "path";
+import fs from "fs";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { createHash } from "crypto";
+import { getEmbeddingModel, getEmbeddingModelId } from "./providers";
+import { LruCache, type CacheStats } from "./lruCache";
+import { redactErrorMessage } from "./redaction";
+
+/**
+ * Every call to the embedding provider goes through here: requests are
+ * batched, retried with exponential backoff on transient errors and
+ * throttled by a limiter shared across all requests in the process.
+ * Document embeddings are cached on disk by (model, chunk text hash), so
+ * re-indexing only embeds text that has not been seen before.
+ *
+ * Cache layout: .embedding_cache/<model>/<first two hex digits>.jsonl, one
+ * {"h": sha256(text), "v": base64 Float32 vector} object per line.
+ */
+const CACHE_DIR = path.join(process.cwd(), ".embedding_cache");
+
+const DEFAULT_BATCH_SIZE = 32;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_CACHE_MEMORY_MB = 64;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Chunks sent per embedding request (EMBEDDING_BATCH_SIZE, default 32)
+ */
+export function getEmbeddingBatchSize(): number {
+  return Number(process.env.EMBEDDING_BATCH_SIZE) || DEFAULT_BATCH_SIZE;
+}
+
+/**
+ * Retries per request after a transient failure (EMBEDDING_MAX_RETRIES, default 5)
+ */
+function getMaxRetries(): number {
+  const value = process.env.EMBEDDING_MAX_RETRIES;
+  return value && Number.isInteger(Number(value)) && Number(value) >= 0 ? Number(value) : DEFAULT_MAX_RETRIES;
+}
+
+/**
+ * Whether document embeddings are cached on disk (EMBEDDING_CACHE, default on)
+ */
+function isCacheEnabled(): boolean {
+  return process.env.EMBEDDING_CACHE !== "false";
+}
+
+/**
+ * Caps concurrent requests and spaces them to a requests-per-minute budget
+ */
+class RequestLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private nextStart = 0;
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly requestsPerMinute: number
+  ) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.concurrency) {
+      // A finishing request hands its slot straight to us, so a caller
+      // arriving meanwhile cannot take it as well
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      if (this.requestsPerMinute > 0) {
+        const interval = 60_000 / this.requestsPerMinute;
+        const now = Date.now();
+        const startAt = Math.max(now, this.nextStart);
+        this.nextStart = startAt + interval;
+        if (startAt > now) await sleep(startAt - now);
+      }
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+let limiter: RequestLimiter | null = null;
+
+/**
+ * The process-wide limiter (EMBEDDING_CONCURRENCY, default 2;
+ * EMBEDDING_REQUESTS_PER_MINUTE, default unlimited)
+ */
+function getLimiter(): RequestLimiter {
+  limiter ??= new RequestLimiter(
+    Number(process.env.EMBEDDING_CONCURRENCY) || DEFAULT_CONCURRENCY,
+    Number(process.env.EMBEDDING_REQUESTS_PER_MINUTE) || 0
+  );
+  return limiter;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Rate limits, timeouts, server errors and dropped connections are worth retrying
+ */
+function isTransientError(err: unknown): boolean {
+  const error = err as { status?: number; code?: string; name?: string; message?: string };
+  if (typeof error?.status === "number") {
+    return error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500;
+  }
+  if (error?.code && ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"].includes(error.code)) {
+    return true;
+  }
+  return /rate limit|timed? ?out|socket hang up|network|overloaded/i.test(
+    `${error?.name ?? ""} ${error?.message ?? ""}`
+  );
+}
+
+/**
+ * Delay before retry `attempt` (0-based): the server's Retry-After if given,
+ * otherwise exponential backoff with full jitter
+ */
+function retryDelay(err: unknown, attempt: number): number {
+  const headers = (err as { headers?: Record<string, string> | Headers })?.headers;
+  const retryAfter =
+    headers instanceof Headers ? headers.get("retry-after") : headers?.["retry-after"];
+  if (retryAfter && Number(retryAfter) > 0) {
+    return Math.min(Number(retryAfter) * 1000, MAX_RETRY_DELAY_MS);
+  }
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Run a provider call through the shared limiter, retrying transient failures
+ */
+async function callWithRetry<T>(
+  description: string,
+  call: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const maxRetries = getMaxRetries();
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await getLimiter().run(call);
+    } catch (err) {
+      if (attempt >= maxRetries || !isTransientError(err)) throw err;
+      const delay = retryDelay(err, attempt);
+      console.warn(
+        `⚠️ ${description} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${Math.round(delay)}ms:`,
+        redactErrorMessage(err)
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
+
+// Loaded cache shards: "<model dir>/<shard>" -> text hash -> vector, bounded
+// by EMBEDDING_CACHE_MEMORY_MB (default 64); evicted shards are re-read from disk
+const cacheShards = new LruCache<string, Map<string, number[]>>(
+  (Number(process.env.EMBEDDING_CACHE_MEMORY_MB) || DEFAULT_CACHE_MEMORY_MB) * 1024 * 1024,
+  shardSize
+);
+
+/**
+ * Approximate memory held by a loaded shard (8 bytes per vector component)
+ */
+function shardSize(entries: Map<string, number[]>): number {
+  let size = 0;
+  for (const vector of entries.values()) size += vector.length * 8;
+  return size;
+}
+
+function textHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function modelCacheDir(modelId: string): string {
+  return path.join(CACHE_DIR, modelId.replace(/[^a-zA-Z0-9._-]/g, "_"));
+}
+
+async function loadShard(modelDir: string, shard: string): Promise<Map<string, number[]>> {
+  const key = path.join(modelDir, shard);
+  let entries = cacheShards.get(key);
+  if (entries) return entries;
+
+  entries = new Map();
+  const shardPath = `${key}.jsonl`;
+  if (fs.existsSync(shardPath)) {
+    for (const line of (await readFile(shardPath, "utf-8")).split("\n")) {
+      if (!line) continue;
+      try {
+        const { h, v } = JSON.parse(line) as { h: string; v: string };
+        const bytes = Buffer.from(v, "base64");
+        // Copy into an aligned ArrayBuffer; Buffer pooling may leave byteOffset unaligned
+        entries.set(
+          h,
+          Array.from(new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)))
+        );
+      } catch {
+        // A torn final line from an interrupted write; the entry is re-embedded
+      }
+    }
+  }
+  cacheShards.set(key, entries);
+  return entries;
+}
+
+async function writeCacheEntries(
+  modelDir: string,
+  entries: Array<{ hash: string; vector: number[] }>
+): Promise<void> {
+  await mkdir(modelDir, { recursive: true });
+
+  const byShard = new Map<string, string[]>();
+  for (const { hash, vector } of entries) {
+    const shard = hash.slice(0, 2);
+    const shardEntries = await loadShard(modelDir, shard);
+    shardEntries.set(hash, vector);
+    // Re-insert so the cache accounts for the shard's new size
+    cacheShards.set(path.join(modelDir, shard), shardEntries);
+    const line = JSON.stringify({ h: hash, v: Buffer.from(new Float32Array(vector).buffer).toString("base64") });
+    const lines = byShard.get(shard) ?? [];
+    lines.push(line);
+    byShard.set(shard, lines);
+  }
+  for (const [shard, lines] of byShard) {
+    await appendFile(path.join(modelDir, `${shard}.jsonl`), lines.join("\n") + "\n");
+  }
+}
+
+/**
+ * Embed document texts, reusing cached vectors and embedding the rest in
+ * batches. Returns one vector per text, in order.
+ */
+export async function embedTexts(
+  texts: string[],
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<number[][]> {
+  const modelId = getEmbeddingModelId();
+  const modelDir = modelCacheDir(modelId);
+  const useCache = isCacheEnabled();
+  const hashes = texts.map(textHash);
+  const vectors: Array<number[] | undefined> = new Array(texts.length);
+
+  if (useCache) {
+    for (let idx = 0; idx < texts.length; idx++) {
+      vectors[idx] = (await loadShard(modelDir, hashes[idx].slice(0, 2))).get(hashes[idx]);
+    }
+  }
+
+  const missing = texts.map((_, idx) => idx).filter((idx) => !vectors[idx]);
+  if (missing.length < texts.length) {
+    console.log(`♻️ Reused ${texts.length - missing.length}/${texts.length} cached embeddings`);
+  }
+
+  const model = getEmbeddingModel();
+  const batchSize = getEmbeddingBatchSize();
+  for (let start = 0; start < missing.length; start += batchSize) {
+    const batch = missing.slice(start, start + batchSize);
+    const embedded = await callWithRetry(
+      `Embedding batch of ${batch.length}`,
+      () => model.embedDocuments(batch.map((idx) => texts[idx])),
+      signal
+    );
+    batch.forEach((idx, position) => (vectors[idx] = embedded[position]));
+
+    if (useCache) {
+      await writeCacheEntries(
+        modelDir,
+        batch.map((idx, position) => ({ hash: hashes[idx], vector: embedded[position] }))
+      );
+    }
+  }
+
+  return vectors as number[][];
+}
+
+// Recent query embeddings (QUERY_EMBEDDING_CACHE_SIZE entries, default 256),
+// so the same question searched across several stores is embedded once.
+// Promises are cached so concurrent lookups share one request.
+const queryEmbeddingCache = new LruCache<string, Promise<number[]>>(
+  Number(process.env.QUERY_EMBEDDING_CACHE_SIZE) || 256
+);
+
+/**
+ * Embed a search query (kept in memory only, not cached on disk)
+ */
+export async function embedQueryText(query: string, { signal }: { signal?: AbortSignal } = {}): Promise<number[]> {
+  const key = `${getEmbeddingModelId()}\0${query}`;
+  const cached = queryEmbeddingCache.get(key);
+  if (cached) return cached;
+
+  const model = getEmbeddingModel();
+  const pending = callWithRetry("Query embedding", () => model.embedQuery(query), signal);
+  queryEmbeddingCache.set(key, pending);
+  pending.catch(() => queryEmbeddingCache.delete(key));
+  return pending;
+}
+
+/**
+ * Hit/miss/eviction counts of the query-embedding cache
+ */
+export function getQueryEmbeddingCacheStats(): CacheStats {
+  return queryEmbeddingCache.stats();
+}
@@ -0,0 +1,45 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// Stores and reports are written under the working directory, so the run
+// happens in a scratch copy of evaluation/ with the offline provider
+const repoDir = process.cwd();
+let workDir: string;
+let evaluation: typeof import("./evaluation");
+
+beforeAll(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rag-eval-"));
+  fs.cpSync(path.join(repoDir, "evaluation"), path.join(workDir, "evaluation"), { recursive: true });
+  process.chdir(workDir);
+  process.env.LLM_PROVIDER = "fake";
+  delete process.env.EMBEDDINGS_PROVIDER;
+  evaluation = await import("./evaluation");
+});
+
+afterAll(() => {
+  process.chdir(repoDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe("leave-policy dataset", () => {
+  it("is a valid dataset", () => {
+    const dataset = evaluation.EvalDatasetSchema.safeParse(evaluation.readEvalDataset("leave-policy"));
+    expect(dataset.success).toBe(true);
+  });
+
+  it("retrieves the expected source for every case", async () => {
+    const dataset = evaluation.EvalDatasetSchema.parse(evaluation.readEvalDataset("leave-policy"));
+    const report = await evaluation.runEvaluation(dataset, evaluation.EvalConfigSchema.parse({}));
+
+    expect(report.cases).toHaveLength(dataset.cases.length);
+    expect(report.cases.every((evalCase) => !evalCase.error)).toBe(true);
+    expect(report.metrics.recallAtK).toBe(1);
+    expect(report.metrics.mrr).toBeGreaterThan(0.5);
+    for (const metric of ["citationPrecision", "faithfulness", "answerF1"] as const) {
+      expect(report.metrics[metric]).toEqual(expect.any(Number));
+    }
+    expect(evaluation.getEvalReport(report.id)?.metrics).toEqual(report.metrics);
+  });
+});
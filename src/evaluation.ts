@@ -0,0 +1,524 @@
+import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { chatbotGraph, DEFAULT_TOP_K, retrieveDocuments, type ScoredDocument } from "./agent";
+import { verifyQuote, type Citation } from "./citations";
+import { RETRIEVAL_MODES, tokenizeLexical, type RetrievalMode } from "./lexicalIndex";
+import { getChatProviderName, getEmbeddingModelId, getEmbeddingProviderName } from "./providers";
+import { RerankOptionsSchema } from "./reranking";
+import {
+  computeContentHash,
+  createVectorStore,
+  getVectorStoreSummary,
+  updateVectorStoreMetadata,
+} from "./vectorStore";
+
+/**
+ * Offline evaluation: run a golden dataset of questions through retrieval and
+ * the chatbot graph and score the results, so changes to chunking, topK,
+ * re-ranking or prompts can be compared run against run.
+ *
+ * Datasets are JSON files in evaluation/. Each lists its documents (a file
+ * path under evaluation/, indexed with the run's chunking settings, or an
+ * existing storeId) and cases: a question with the sources a good answer
+ * should come from (`document` plus a short `text` snippet and/or `page`)
+ * and optionally the expected answer. Per case:
+ * - recall@k: share of expected sources found in the top-k retrieved chunks
+ * - reciprocal rank: 1 / rank of the first relevant chunk (MRR when averaged)
+ * - citation precision: share of the answer's citations that point at an expected source
+ * - faithfulness: share of answer sentences whose words are found in the cited chunks
+ * - answer F1: token overlap with the expected answer
+ *
+ * Reports are saved to .eval_reports/ as JSON and Markdown, with deltas
+ * against a baseline report. With LLM_PROVIDER=fake the whole run is offline.
+ */
+const EvalDocumentSchema = z
+  .object({
+    id: z.string().min(1),
+    // File under evaluation/, indexed with the run's chunking settings
+    path: z.string().min(1).optional(),
+    // Or an already indexed store
+    storeId: z.string().min(1).optional(),
+  })
+  .refine((doc) => Boolean(doc.path) !== Boolean(doc.storeId), {
+    message: "Each document needs exactly one of path or storeId",
+  });
+
+const ExpectedSourceSchema = z.object({
+  document: z.string().min(1),
+  // Short snippet the relevant chunk must contain
+  text: z.string().min(1).optional(),
+  page: z.number().int().positive().optional(),
+});
+
+const EvalCaseSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  // Documents to ask against (default: all of the dataset's documents)
+  documents: z.array(z.string()).optional(),
+  expectedSources: z.array(ExpectedSourceSchema).min(1),
+  expectedAnswer: z.string().optional(),
+});
+
+export const EvalDatasetSchema = z
+  .object({
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/),
+    description: z.string().optional(),
+    documents: z.array(EvalDocumentSchema).min(1),
+    cases: z.array(EvalCaseSchema).min(1),
+  })
+  .superRefine((dataset, ctx) => {
+    const ids = new Set(dataset.documents.map((doc) => doc.id));
+    dataset.cases.forEach((evalCase, idx) => {
+      const referenced = [...(evalCase.documents ?? []), ...evalCase.expectedSources.map((source) => source.document)];
+      for (const id of referenced.filter((id) => !ids.has(id))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cases", idx], message: `Unknown document ${id}` });
+      }
+    });
+  });
+
+export const EvalConfigSchema = z
+  .object({
+    topK: z.number().int().min(1).max(50).default(DEFAULT_TOP_K),
+    retrievalMode: z.enum(RETRIEVAL_MODES as [RetrievalMode, ...RetrievalMode[]]).optional(),
+    rerank: RerankOptionsSchema.optional(),
+    // Chunking for documents given by path
+    chunkSize: z.number().int().min(100).max(8000).optional(),
+    chunkOverlap: z.number().int().min(0).max(2000).optional(),
+    profileId: z.string().optional(),
+    // Clusters probed in stores with an approximate index
+    nprobe: z.number().int().min(1).max(1024).optional(),
+    // Only score retrieval (no LLM calls)
+    retrievalOnly: z.boolean().default(false),
+  })
+  .refine((config) => (config.chunkOverlap ?? 0) < (config.chunkSize ?? Infinity), {
+    message: "chunkOverlap must be smaller than chunkSize",
+  });
+
+export type EvalDataset = z.infer<typeof EvalDatasetSchema>;
+export type EvalConfig = z.infer<typeof EvalConfigSchema>;
+
+type ExpectedSource = z.infer<typeof ExpectedSourceSchema>;
+
+export interface EvalMetrics {
+  recallAtK: number;
+  mrr: number;
+  // null when no case produced a value (e.g. retrieval-only runs)
+  citationPrecision: number | null;
+  faithfulness: number | null;
+  answerF1: number | null;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  retrieved: Array<{ storeId?: string; chunkIndex?: number; pageNumber?: number; relevant: boolean }>;
+  recallAtK: number;
+  reciprocalRank: number;
+  citationPrecision: number | null;
+  faithfulness: number | null;
+  answerF1: number | null;
+  answer?: string;
+  confidence?: string;
+  error?: string;
+}
+
+export interface EvalReport {
+  id: string;
+  dataset: string;
+  startedAt: string;
+  durationMs: number;
+  config: EvalConfig;
+  providers: { chat: string; embeddings: string; embeddingModel: string };
+  // Store each document was evaluated against
+  documents: Record<string, string>;
+  metrics: EvalMetrics;
+  baseline?: { id: string; metrics: EvalMetrics };
+  cases: EvalCaseResult[];
+}
+
+export type EvalReportSummary = Omit<EvalReport, "cases" | "documents">;
+
+export const EVAL_DATASETS_DIR = path.join(process.cwd(), "evaluation");
+const EVAL_REPORTS_DIR = path.join(process.cwd(), ".eval_reports");
+
+const NAME_PATTERN = /^[a-zA-Z0-9_.-]{1,128}$/;
+
+// Share of a sentence's words that must appear in the cited text to count as supported
+const FAITHFULNESS_THRESHOLD = 0.75;
+
+export function listEvalDatasets(): string[] {
+  if (!fs.existsSync(EVAL_DATASETS_DIR)) return [];
+  return fs
+    .readdirSync(EVAL_DATASETS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => path.basename(file, ".json"))
+    .sort();
+}
+
+/**
+ * Read a dataset file from evaluation/ (unvalidated); null if there is none
+ */
+export function readEvalDataset(name: string): unknown | null {
+  const datasetPath = path.join(EVAL_DATASETS_DIR, `${name}.json`);
+  if (!NAME_PATTERN.test(name) || !fs.existsSync(datasetPath)) return null;
+  // Malformed JSON is read as undefined so it fails schema validation
+  try {
+    return JSON.parse(fs.readFileSync(datasetPath, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map each dataset document to a store, indexing file documents with the
+ * run's chunking settings. Stores are named after the file contents and
+ * settings, so unchanged documents are only indexed once.
+ */
+async function prepareDocuments(dataset: EvalDataset, config: EvalConfig): Promise<Map<string, string>> {
+  const storeIds = new Map<string, string>();
+
+  for (const doc of dataset.documents) {
+    if (doc.storeId) {
+      if (!(await getVectorStoreSummary(doc.storeId))) {
+        throw new Error(`Store ${doc.storeId} for document ${doc.id} not found`);
+      }
+      storeIds.set(doc.id, doc.storeId);
+      continue;
+    }
+    if (!doc.path) {
+      throw new Error(`Document ${doc.id} needs a path or storeId`);
+    }
+
+    const filePath = path.resolve(EVAL_DATASETS_DIR, doc.path);
+    if (!filePath.startsWith(EVAL_DATASETS_DIR + path.sep) || !fs.existsSync(filePath)) {
+      throw new Error(`Document file ${doc.path} not found in evaluation/`);
+    }
+
+    const key = [
+      computeContentHash(fs.readFileSync(filePath)),
+      config.chunkSize ?? "",
+      config.chunkOverlap ?? "",
+      getEmbeddingModelId(),
+    ].join(":");
+    const storeId = `eval_${createHash("sha256").update(key).digest("hex").substring(0, 16)}`;
+
+    if (!(await getVectorStoreSummary(storeId))) {
+      console.log(`🧪 Indexing evaluation document ${doc.path}`);
+      await createVectorStore(filePath, storeId, { chunkSize: config.chunkSize, chunkOverlap: config.chunkOverlap });
+      updateVectorStoreMetadata(storeId, { displayName: `[eval] ${doc.id}`, evaluation: true });
+    }
+    storeIds.set(doc.id, storeId);
+  }
+
+  return storeIds;
+}
+
+/**
+ * Whether a chunk is one of the sources a case expects
+ */
+function matchesSource(doc: ScoredDocument, source: ExpectedSource, storeIds: Map<string, string>): boolean {
+  if (doc.metadata.storeId !== storeIds.get(source.document)) return false;
+  if (source.text && verifyQuote(source.text, doc.pageContent).status === "unverified") return false;
+  if (source.page) {
+    const pageNumber = doc.metadata.pageNumber as number | undefined;
+    if (!pageNumber) return false;
+    const pageEnd = (doc.metadata.pageEnd as number | undefined) ?? pageNumber;
+    if (source.page < pageNumber || source.page > pageEnd) return false;
+  }
+  return true;
+}
+
+/**
+ * The chunk a citation points at, falling back to its quote if the chunk
+ * was not among the retrieved documents
+ */
+function citedChunk(citation: Citation, retrieved: ScoredDocument[]): ScoredDocument {
+  return (
+    retrieved.find(
+      (doc) => doc.metadata.storeId === citation.storeId && doc.metadata.chunkIndex === citation.chunkIndex
+    ) ?? {
+      pageContent: citation.text,
+      metadata: {
+        storeId: citation.storeId,
+        source: citation.source,
+        pageNumber: citation.pageNumber,
+        pageEnd: citation.pageEnd,
+      },
+    }
+  );
+}
+
+/**
+ * Share of answer sentences whose words mostly occur in the context
+ */
+function faithfulness(answer: string, context: string): number | null {
+  const contextTokens = new Set(tokenizeLexical(context));
+  const sentences = answer
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => tokenizeLexical(sentence))
+    .filter((tokens) => tokens.length > 0);
+  if (sentences.length === 0) return null;
+
+  const supported = sentences.filter(
+    (tokens) => tokens.filter((token) => contextTokens.has(token)).length / tokens.length >= FAITHFULNESS_THRESHOLD
+  );
+  return supported.length / sentences.length;
+}
+
+/**
+ * SQuAD-style token F1 between an answer and the expected answer
+ */
+function tokenF1(answer: string, expected: string): number {
+  const answerTokens = tokenizeLexical(answer);
+  const expectedCounts = new Map<string, number>();
+  for (const token of tokenizeLexical(expected)) {
+    expectedCounts.set(token, (expectedCounts.get(token) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (const token of answerTokens) {
+    const count = expectedCounts.get(token) || 0;
+    if (count > 0) {
+      overlap++;
+      expectedCounts.set(token, count - 1);
+    }
+  }
+  if (overlap === 0) return 0;
+
+  const precision = overlap / answerTokens.length;
+  const recall = overlap / tokenizeLexical(expected).length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+async function evaluateCase(
+  evalCase: EvalDataset["cases"][number],
+  dataset: EvalDataset,
+  config: EvalConfig,
+  storeIdsByDocument: Map<string, string>
+): Promise<EvalCaseResult> {
+  const storeIds = (evalCase.documents ?? dataset.documents.map((doc) => doc.id)).map((id) => {
+    const storeId = storeIdsByDocument.get(id);
+    if (!storeId) {
+      throw new Error(`Case ${evalCase.id} references unknown document ${id}`);
+    }
+    return storeId;
+  });
+
+  const retrieved = await retrieveDocuments(
+    evalCase.question,
+    storeIds,
+    config.topK,
+    { mode: config.retrievalMode, nprobe: config.nprobe },
+    config.rerank
+  );
+  const isRelevant = (doc: ScoredDocument) =>
+    evalCase.expectedSources.some((source) => matchesSource(doc, source, storeIdsByDocument));
+
+  const found = evalCase.expectedSources.filter((source) =>
+    retrieved.some((doc) => matchesSource(doc, source, storeIdsByDocument))
+  );
+  const firstRelevant = retrieved.findIndex(isRelevant);
+  const result: EvalCaseResult = {
+    id: evalCase.id,
+    question: evalCase.question,
+    retrieved: retrieved.map((doc) => ({
+      storeId: doc.metadata.storeId as string | undefined,
+      chunkIndex: doc.metadata.chunkIndex as number | undefined,
+      pageNumber: doc.metadata.pageNumber as number | undefined,
+      relevant: isRelevant(doc),
+    })),
+    recallAtK: found.length / evalCase.expectedSources.length,
+    reciprocalRank: firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1),
+    citationPrecision: null,
+    faithfulness: null,
+    answerF1: null,
+  };
+  if (config.retrievalOnly) return result;
+
+  const response = await chatbotGraph({
+    input: evalCase.question,
+    storeIds,
+    retrievalMode: config.retrievalMode,
+    profileId: config.profileId,
+    rerank: config.rerank,
+    topK: config.topK,
+    nprobe: config.nprobe,
+  });
+  const cited = response.citations.map((citation) => citedChunk(citation, retrieved));
+
+  return {
+    ...result,
+    answer: response.answer,
+    confidence: response.confidence,
+    citationPrecision: cited.length > 0 ? cited.filter(isRelevant).length / cited.length : null,
+    faithfulness:
+      response.validation.status === "skipped"
+        ? null
+        : faithfulness(
+            response.answer,
+            // The prompt names each chunk's file too
+            (cited.length > 0 ? cited : retrieved)
+              .map((doc) => `${doc.pageContent}\n${doc.metadata.source ?? ""}`)
+              .join("\n")
+          ),
+    answerF1: evalCase.expectedAnswer ? tokenF1(response.answer, evalCase.expectedAnswer) : null,
+  };
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
+
+function aggregateMetrics(cases: EvalCaseResult[]): EvalMetrics {
+  return {
+    recallAtK: mean(cases.map((result) => result.recallAtK)) ?? 0,
+    mrr: mean(cases.map((result) => result.reciprocalRank)) ?? 0,
+    citationPrecision: mean(cases.map((result) => result.citationPrecision)),
+    faithfulness: mean(cases.map((result) => result.faithfulness)),
+    answerF1: mean(cases.map((result) => result.answerF1)),
+  };
+}
+
+function reportPath(id: string, extension: "json" | "md"): string {
+  return path.join(EVAL_REPORTS_DIR, `${id}.${extension}`);
+}
+
+export function getEvalReport(id: string): EvalReport | null {
+  if (!NAME_PATTERN.test(id) || !fs.existsSync(reportPath(id, "json"))) return null;
+  return JSON.parse(fs.readFileSync(reportPath(id, "json"), "utf-8")) as EvalReport;
+}
+
+/**
+ * Saved reports, newest first, optionally for one dataset
+ */
+export function listEvalReports(dataset?: string): EvalReportSummary[] {
+  if (!fs.existsSync(EVAL_REPORTS_DIR)) return [];
+  return fs
+    .readdirSync(EVAL_REPORTS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => getEvalReport(path.basename(file, ".json")))
+    .filter((report): report is EvalReport => report !== null && (!dataset || report.dataset === dataset))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .map(({ cases: _cases, documents: _documents, ...summary }) => summary);
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "–" : value.toFixed(3);
+}
+
+function formatDelta(value: number | null, baseline: number | null | undefined): string {
+  if (value === null || baseline === null || baseline === undefined) return "–";
+  const delta = value - baseline;
+  return `${delta >= 0 ? "+" : ""}${delta.toFixed(3)}`;
+}
+
+/**
+ * Render a report as Markdown: configuration, metrics against the baseline,
+ * then one row per case
+ */
+export function formatEvalReportMarkdown(report: EvalReport): string {
+  const metricNames: Array<[keyof EvalMetrics, string]> = [
+    ["recallAtK", `Recall@${report.config.topK}`],
+    ["mrr", "MRR"],
+    ["citationPrecision", "Citation precision"],
+    ["faithfulness", "Faithfulness"],
+    ["answerF1", "Answer F1"],
+  ];
+
+  const lines = [
+    `# Evaluation: ${report.dataset}`,
+    "",
+    `Run ${report.id} at ${report.startedAt} (${(report.durationMs / 1000).toFixed(1)}s)`,
+    "",
+    `- Providers: chat ${report.providers.chat}, embeddings ${report.providers.embeddings} (${report.providers.embeddingModel})`,
+    `- Config: \`${JSON.stringify(report.config)}\``,
+    "",
+    `| Metric | Value | Baseline | Δ |`,
+    `| --- | --- | --- | --- |`,
+    ...metricNames.map(
+      ([key, label]) =>
+        `| ${label} | ${formatMetric(report.metrics[key])} | ${formatMetric(report.baseline?.metrics[key] ?? null)} | ${formatDelta(report.metrics[key], report.baseline?.metrics[key])} |`
+    ),
+    "",
+    report.baseline ? `Baseline: ${report.baseline.id}` : "No baseline report.",
+    "",
+    `| Case | Recall | RR | Citation precision | Faithfulness | Answer F1 | Error |`,
+    `| --- | --- | --- | --- | --- | --- | --- |`,
+    ...report.cases.map(
+      (result) =>
+        `| ${result.id} | ${formatMetric(result.recallAtK)} | ${formatMetric(result.reciprocalRank)} | ` +
+        `${formatMetric(result.citationPrecision)} | ${formatMetric(result.faithfulness)} | ` +
+        `${formatMetric(result.answerF1)} | ${result.error?.replace(/\|/g, "\\|") ?? ""} |`
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Run every case of a dataset and save the report. The baseline is
+ * `baselineId`, or else the latest earlier report for the same dataset.
+ * A failing case is recorded with its error and scored zero for retrieval.
+ */
+export async function runEvaluation(
+  dataset: EvalDataset,
+  config: EvalConfig,
+  { baselineId }: { baselineId?: string } = {}
+): Promise<EvalReport> {
+  const started = Date.now();
+  const baseline = baselineId ? getEvalReport(baselineId) : listEvalReports(dataset.name)[0] ?? null;
+  if (baselineId && !baseline) {
+    throw new Error(`Baseline report ${baselineId} not found`);
+  }
+
+  const storeIds = await prepareDocuments(dataset, config);
+  console.log(`🧪 Evaluating ${dataset.name}: ${dataset.cases.length} cases`);
+
+  const cases: EvalCaseResult[] = [];
+  for (const evalCase of dataset.cases) {
+    try {
+      cases.push(await evaluateCase(evalCase, dataset, config, storeIds));
+    } catch (err) {
+      console.error(`❌ Evaluation case ${evalCase.id} failed:`, err);
+      cases.push({
+        id: evalCase.id,
+        question: evalCase.question,
+        retrieved: [],
+        recallAtK: 0,
+        reciprocalRank: 0,
+        citationPrecision: null,
+        faithfulness: null,
+        answerF1: null,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  const startedAt = new Date(started).toISOString();
+  const report: EvalReport = {
+    id: `${dataset.name}-${startedAt.replace(/[:.]/g, "-")}`,
+    dataset: dataset.name,
+    startedAt,
+    durationMs: Date.now() - started,
+    config,
+    providers: {
+      chat: getChatProviderName(),
+      embeddings: getEmbeddingProviderName(),
+      embeddingModel: getEmbeddingModelId(),
+    },
+    documents: Object.fromEntries(storeIds),
+    metrics: aggregateMetrics(cases),
+    baseline: baseline ? { id: baseline.id, metrics: baseline.metrics } : undefined,
+    cases,
+  };
+
+  fs.mkdirSync(EVAL_REPORTS_DIR, { recursive: true });
+  fs.writeFileSync(reportPath(report.id, "json"), JSON.stringify(report, null, 2));
+  fs.writeFileSync(reportPath(report.id, "md"), formatEvalReportMarkdown(report));
+  console.log(
+    `✅ Evaluation ${report.id}: recall@${config.topK} ${report.metrics.recallAtK.toFixed(3)}, MRR ${report.metrics.mrr.toFixed(3)}`
+  );
+  return report;
+}
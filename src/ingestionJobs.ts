@@ -0,0 +1,302 @@
+import path from "path";
+import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+import {
+  createVectorStore,
+  deleteVectorStore,
+  discardEmbeddingCheckpoint,
+  loadVectorStoreMetadata,
+  updateVectorStoreMetadata,
+  type IngestionProgress,
+  type IngestionSettings,
+} from "./vectorStore";
+import { estimateTokens, recordUsage } from "./rateLimits";
+
+/**
+ * Background ingestion jobs. Uploads are queued and processed one at a time
+ * outside the request; each job is persisted as JSON so its status survives
+ * restarts and interrupted jobs are resumed from their embedding checkpoint.
+ */
+export type IngestionJobStatus =
+  | "queued"
+  | "parsing"
+  | "embedding"
+  | "indexing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface IngestionJob {
+  id: string;
+  storeId: string;
+  // Workspace that owns the job and the store it creates
+  workspaceId?: string;
+  fileName: string;
+  filePath: string;
+  contentHash?: string;
+  settings?: IngestionSettings;
+  // Re-indexing an existing store: on failure the old store is kept
+  reindex?: boolean;
+  // Client charged for the tokens the job embeds (see src/rateLimits.ts)
+  clientId?: string;
+  status: IngestionJobStatus;
+  progress: { embedded: number; total: number } | null;
+  pageCount?: number;
+  format?: string;
+  error?: string;
+  cancelRequested?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const TERMINAL_STATUSES: IngestionJobStatus[] = ["done", "failed", "cancelled"];
+
+const JOBS_DIR = path.join(process.cwd(), ".ingestion_jobs");
+
+const JOB_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Jobs waiting to run, and the controller of the job currently running
+const queue: string[] = [];
+const running = new Map<string, AbortController>();
+let processing = false;
+let interruptedJobsResumed = false;
+
+function jobPath(id: string): string {
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function writeJob(job: IngestionJob): void {
+  fs.mkdirSync(JOBS_DIR, { recursive: true });
+  const target = jobPath(job.id);
+  fs.writeFileSync(`${target}.tmp`, JSON.stringify(job, null, 2));
+  fs.renameSync(`${target}.tmp`, target);
+}
+
+function updateJob(id: string, changes: Partial<IngestionJob>): IngestionJob | null {
+  const job = readJob(id);
+  if (!job) return null;
+
+  const updated: IngestionJob = { ...job, ...changes, id, updatedAt: new Date().toISOString() };
+  writeJob(updated);
+  return updated;
+}
+
+function readJob(id: string): IngestionJob | null {
+  if (!JOB_ID_PATTERN.test(id) || !fs.existsSync(jobPath(id))) return null;
+  return JSON.parse(fs.readFileSync(jobPath(id), "utf-8")) as IngestionJob;
+}
+
+/**
+ * Job fields safe to return to clients (no server file paths)
+ */
+export function toJobResponse(job: IngestionJob) {
+  return {
+    id: job.id,
+    storeId: job.storeId,
+    workspaceId: job.workspaceId,
+    fileName: job.fileName,
+    status: job.status,
+    progress: job.progress,
+    pageCount: job.pageCount,
+    format: job.format,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+export function isTerminalStatus(status: IngestionJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Re-queue jobs that were still in progress when the server stopped (once per process)
+ */
+function resumeInterruptedJobs(): void {
+  if (interruptedJobsResumed) return;
+  interruptedJobsResumed = true;
+  if (!fs.existsSync(JOBS_DIR)) return;
+
+  const interrupted = fs
+    .readdirSync(JOBS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => readJob(path.basename(file, ".json")))
+    .filter((job): job is IngestionJob => job !== null && !isTerminalStatus(job.status))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const job of interrupted) {
+    console.log(`🔄 Resuming ingestion job ${job.id} (${job.fileName})`);
+    updateJob(job.id, { status: "queued" });
+    queue.push(job.id);
+  }
+  void processQueue();
+}
+
+/**
+ * Queue ingestion of a file into a vector store: a new store for uploads, or
+ * a rebuild of an existing one when `reindex` is set
+ */
+export function createIngestionJob({
+  filePath,
+  fileName,
+  storeId,
+  workspaceId,
+  contentHash,
+  settings,
+  reindex = false,
+  clientId,
+}: {
+  filePath: string;
+  fileName: string;
+  storeId: string;
+  workspaceId?: string;
+  contentHash?: string;
+  settings?: IngestionSettings;
+  reindex?: boolean;
+  clientId?: string;
+}): IngestionJob {
+  resumeInterruptedJobs();
+
+  const now = new Date().toISOString();
+  const job: IngestionJob = {
+    id: uuidv4(),
+    storeId,
+    workspaceId,
+    fileName,
+    filePath,
+    contentHash,
+    settings,
+    reindex,
+    clientId,
+    status: "queued",
+    progress: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeJob(job);
+  queue.push(job.id);
+  void processQueue();
+  return job;
+}
+
+export function getIngestionJob(id: string): IngestionJob | null {
+  resumeInterruptedJobs();
+  return readJob(id);
+}
+
+/**
+ * A queued or running job for a file with the given content hash, if any,
+ * optionally only among jobs of `workspaceId`
+ */
+export function findActiveJobByContentHash(
+  contentHash: string,
+  { workspaceId }: { workspaceId?: string } = {}
+): IngestionJob | null {
+  resumeInterruptedJobs();
+  for (const id of [...running.keys(), ...queue]) {
+    const job = readJob(id);
+    if (workspaceId && job?.workspaceId !== workspaceId) continue;
+    if (job && job.contentHash === contentHash && !job.cancelRequested && !isTerminalStatus(job.status)) {
+      return job;
+    }
+  }
+  return null;
+}
+
+/**
+ * Cancel a queued or running job. The running job stops before its next
+ * embedding batch; its partial store and uploaded file are removed.
+ */
+export function cancelIngestionJob(id: string): IngestionJob | null {
+  const job = getIngestionJob(id);
+  if (!job || isTerminalStatus(job.status)) return job;
+
+  const queued = queue.indexOf(id);
+  if (queued !== -1) {
+    queue.splice(queued, 1);
+    discardJobFiles(job);
+    return updateJob(id, { status: "cancelled", progress: null });
+  }
+
+  // The flag is also checked from the job file, in case the job is running
+  // in another module instance of the server
+  running.get(id)?.abort();
+  return updateJob(id, { cancelRequested: true });
+}
+
+function discardJobFiles(job: IngestionJob): void {
+  if (job.reindex) {
+    // The existing store is only replaced once re-embedding completes
+    void discardEmbeddingCheckpoint(job.storeId);
+    return;
+  }
+  deleteVectorStore(job.storeId);
+  fs.rmSync(job.filePath, { force: true });
+}
+
+async function processQueue(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    let id: string | undefined;
+    while ((id = queue.shift())) {
+      await runJob(id);
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+async function runJob(id: string): Promise<void> {
+  const job = readJob(id);
+  if (!job || isTerminalStatus(job.status)) return;
+
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  const onProgress = (progress: IngestionProgress) => {
+    if (readJob(id)?.cancelRequested) {
+      controller.abort();
+    }
+    controller.signal.throwIfAborted();
+    updateJob(id, {
+      status: progress.stage,
+      progress: progress.stage === "embedding" ? { embedded: progress.embedded, total: progress.total } : null,
+    });
+  };
+
+  try {
+    const result = await createVectorStore(job.filePath, job.storeId, {
+      ...job.settings,
+      onProgress,
+      signal: controller.signal,
+    });
+
+    if (job.workspaceId && !job.reindex) {
+      updateVectorStoreMetadata(job.storeId, { workspaceId: job.workspaceId });
+    }
+    updateJob(id, { status: "done", pageCount: result.pageCount || 1, format: result.format });
+    console.log(`✅ Ingestion job ${id} done: ${job.fileName}`);
+
+    // Embedded tokens count towards the uploader's daily quota
+    if (job.clientId) {
+      const textLength = loadVectorStoreMetadata(job.storeId)?.textLength as number | undefined;
+      await recordUsage(job.clientId, "embeddedTokens", estimateTokens(textLength ?? 0)).catch((err) =>
+        console.error(`Failed to record embedded tokens for job ${id}:`, err)
+      );
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      discardJobFiles(job);
+      updateJob(id, { status: "cancelled", progress: null });
+      console.log(`🛑 Ingestion job ${id} cancelled`);
+    } else {
+      const message = err instanceof Error ? err.message : String(err);
+      if (!job.reindex) deleteVectorStore(job.storeId);
+      updateJob(id, { status: "failed", error: message });
+      console.error(`❌ Ingestion job ${id} failed:`, err);
+    }
+  } finally {
+    running.delete(id);
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildLexicalIndex,
+  reciprocalRankFusion,
+  searchLexicalIndex,
+  tokenizeLexical,
+} from "./lexicalIndex";
+
+describe("tokenizeLexical", () => {
+  it("lowercases and keeps dotted compounds whole as well as split", () => {
+    expect(tokenizeLexical("See s.5A of Cap 247")).toEqual(["see", "s.5a", "s", "5a", "of", "cap", "247"]);
+    expect(tokenizeLexical("section 12.3-b")).toEqual(["section", "12.3-b", "12", "3", "b"]);
+  });
+});
+
+describe("searchLexicalIndex", () => {
+  const texts = [
+    "Annual leave is 18 days per calendar year.",
+    "Sick leave requires a medical certificate after two days.",
+    "Section 12.3 sets out the winding up procedure.",
+    "Leave leave leave: this chunk repeats one word many times over and over again.",
+  ];
+  const index = buildLexicalIndex(texts);
+
+  it("ranks chunks containing rare query terms first", () => {
+    const results = searchLexicalIndex(index, "medical certificate", 3);
+    expect(results[0].idx).toBe(1);
+    expect(results).toHaveLength(1);
+  });
+
+  it("matches section numbers exactly", () => {
+    expect(searchLexicalIndex(index, "what does 12.3 say?", 1)[0].idx).toBe(2);
+  });
+
+  it("weights terms that appear in fewer chunks higher", () => {
+    const results = searchLexicalIndex(index, "annual leave", 4);
+    expect(results[0].idx).toBe(0);
+    expect(results.map((result) => result.idx)).toEqual(expect.arrayContaining([0, 1, 3]));
+  });
+
+  it("returns nothing when no term matches", () => {
+    expect(searchLexicalIndex(index, "pension", 5)).toEqual([]);
+  });
+
+  it("limits results to topK, best first", () => {
+    const results = searchLexicalIndex(index, "leave", 2);
+    expect(results).toHaveLength(2);
+    expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  it("favours items ranked well by both lists", () => {
+    const fused = reciprocalRankFusion(
+      [
+        [{ idx: 1 }, { idx: 2 }, { idx: 3 }],
+        [{ idx: 2 }, { idx: 4 }, { idx: 1 }],
+      ],
+      4
+    );
+    expect(fused.map((result) => result.idx)).toEqual([2, 1, 4, 3]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it("keeps items found by only one list", () => {
+    const fused = reciprocalRankFusion([[{ idx: 7 }], []], 5);
+    expect(fused).toEqual([{ idx: 7, score: 1 / 61 }]);
+  });
+
+  it("limits results to topK", () => {
+    const ranking = Array.from({ length: 10 }, (_, idx) => ({ idx }));
+    expect(reciprocalRankFusion([ranking, ranking], 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,152 @@
+import path from "path";
+import fs from "fs";
+import { readFile, writeFile, rename } from "fs/promises";
+
+/**
+ * BM25 inverted index over a store's chunks, persisted as lexical.json.
+ * Complements embedding search for exact terms such as section numbers,
+ * statute names and acronyms.
+ */
+export interface LexicalIndex {
+  version: number;
+  docCount: number;
+  avgDocLength: number;
+  docLengths: number[];
+  // term -> flat [docIdx, termFrequency, docIdx, termFrequency, ...]
+  postings: Record<string, number[]>;
+}
+
+export type RetrievalMode = "vector" | "lexical" | "hybrid";
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ["vector", "lexical", "hybrid"];
+
+const LEXICAL_INDEX_VERSION = 1;
+const LEXICAL_FILE = "lexical.json";
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Standard reciprocal rank fusion constant
+const RRF_K = 60;
+
+/**
+ * Default retrieval mode (RETRIEVAL_MODE, default "vector")
+ */
+export function getDefaultRetrievalMode(): RetrievalMode {
+  const mode = process.env.RETRIEVAL_MODE as RetrievalMode | undefined;
+  return mode && RETRIEVAL_MODES.includes(mode) ? mode : "vector";
+}
+
+/**
+ * Lowercased word tokens. Dotted/hyphenated compounds such as "12.3" or
+ * "s.5A" are kept whole as well as split, so both forms match.
+ */
+export function tokenizeLexical(text: string): string[] {
+  const tokens: string[] = [];
+  for (const compound of text.toLowerCase().match(/[\p{L}\p{N}]+(?:[./-][\p{L}\p{N}]+)*/gu) || []) {
+    const parts = compound.split(/[./-]/);
+    if (parts.length > 1) tokens.push(compound);
+    tokens.push(...parts);
+  }
+  return tokens;
+}
+
+/**
+ * Build a BM25 index from chunk texts
+ */
+export function buildLexicalIndex(texts: string[]): LexicalIndex {
+  const postingMaps = new Map<string, Map<number, number>>();
+  const docLengths = texts.map((text, docIdx) => {
+    const tokens = tokenizeLexical(text);
+    for (const token of tokens) {
+      let posting = postingMaps.get(token);
+      if (!posting) {
+        posting = new Map();
+        postingMaps.set(token, posting);
+      }
+      posting.set(docIdx, (posting.get(docIdx) || 0) + 1);
+    }
+    return tokens.length;
+  });
+
+  const postings: Record<string, number[]> = {};
+  for (const [term, posting] of postingMaps) {
+    postings[term] = Array.from(posting.entries()).flat();
+  }
+
+  return {
+    version: LEXICAL_INDEX_VERSION,
+    docCount: texts.length,
+    avgDocLength: docLengths.reduce((sum, length) => sum + length, 0) / (texts.length || 1),
+    docLengths,
+    postings,
+  };
+}
+
+/**
+ * Score chunks against a query with BM25 and return the top K
+ */
+export function searchLexicalIndex(
+  index: LexicalIndex,
+  query: string,
+  topK: number
+): Array<{ idx: number; score: number }> {
+  const scores = new Map<number, number>();
+
+  for (const term of new Set(tokenizeLexical(query))) {
+    const posting = index.postings[term];
+    if (!posting) continue;
+
+    const docFrequency = posting.length / 2;
+    const idf = Math.log(1 + (index.docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+    for (let i = 0; i < posting.length; i += 2) {
+      const docIdx = posting[i];
+      const tf = posting[i + 1];
+      const lengthNorm = 1 - BM25_B + BM25_B * (index.docLengths[docIdx] / (index.avgDocLength || 1));
+      const score = idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+      scores.set(docIdx, (scores.get(docIdx) || 0) + score);
+    }
+  }
+
+  return Array.from(scores.entries(), ([idx, score]) => ({ idx, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Combine ranked lists with reciprocal rank fusion
+ */
+export function reciprocalRankFusion(
+  rankings: Array<Array<{ idx: number }>>,
+  topK: number
+): Array<{ idx: number; score: number }> {
+  const fused = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach(({ idx }, rank) => {
+      fused.set(idx, (fused.get(idx) || 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+
+  return Array.from(fused.entries(), ([idx, score]) => ({ idx, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+export async function writeLexicalIndex(storePath: string, index: LexicalIndex): Promise<void> {
+  const target = path.join(storePath, LEXICAL_FILE);
+  await writeFile(`${target}.tmp`, JSON.stringify(index));
+  await rename(`${target}.tmp`, target);
+}
+
+/**
+ * Read a store's lexical index, or null if it has none (or it is stale)
+ */
+export async function readLexicalIndex(storePath: string, count: number): Promise<LexicalIndex | null> {
+  const indexPath = path.join(storePath, LEXICAL_FILE);
+  if (!fs.existsSync(indexPath)) return null;
+
+  const index = JSON.parse(await readFile(indexPath, "utf-8")) as LexicalIndex;
+  if (index.version !== LEXICAL_INDEX_VERSION || index.docCount !== count) {
+    return null;
+  }
+  return index;
+}
@@ -0,0 +1,249 @@
+import path from "path";
+import fs from "fs";
+import mammoth from "mammoth";
+// pdf-parse's implementation, not its entry point: pdf-parse/index.js runs a
+// demo that reads ./test/data when `module.parent` is undefined (as some
+// bundlers leave it)
+import pdf, { type PdfData, type PdfPage } from "pdf-parse/lib/pdf-parse.js";
+import { parse as parseHtml, type HTMLElement } from "node-html-parser";
+
+/**
+ * Document loaders: turn an uploaded file into ordered sections of text.
+ * Sections carry the per-format structure (PDF pages, heading paths) that
+ * createVectorStore records on each chunk.
+ */
+export type DocumentFormat = "pdf" | "docx" | "html" | "markdown" | "text";
+
+export interface LoadedSection {
+  text: string;
+  pageNumber?: number;
+  // Heading titles from the outermost to the one this section falls under
+  headings?: string[];
+}
+
+export interface LoadedDocument {
+  format: DocumentFormat;
+  sections: LoadedSection[];
+  pageCount: number;
+  title?: string;
+}
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".html": "html",
+  ".htm": "html",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION);
+
+/**
+ * Detect a document's format from its file name, or null if unsupported
+ */
+export function getDocumentFormat(fileName: string): DocumentFormat | null {
+  return FORMATS_BY_EXTENSION[path.extname(fileName).toLowerCase()] || null;
+}
+
+/**
+ * Load a document from disk, dispatching on its extension
+ */
+export async function loadDocument(filePath: string): Promise<LoadedDocument> {
+  const format = getDocumentFormat(filePath);
+  if (!format) {
+    throw new Error(
+      `Unsupported file type: ${path.extname(filePath) || path.basename(filePath)}. Supported: ${SUPPORTED_EXTENSIONS.join(", ")}`
+    );
+  }
+
+  const fileBuffer = fs.readFileSync(filePath);
+  switch (format) {
+    case "pdf":
+      return loadPdf(fileBuffer);
+    case "docx":
+      return loadDocx(fileBuffer);
+    case "html":
+      return loadHtml(fileBuffer.toString("utf-8"));
+    case "markdown":
+      return loadMarkdown(fileBuffer.toString("utf-8"));
+    case "text":
+      return { format, sections: [{ text: fileBuffer.toString("utf-8") }], pageCount: 1 };
+  }
+}
+
+/**
+ * Extract text from a PDF one page at a time using pdf-parse's page render hook
+ */
+async function loadPdf(fileBuffer: Buffer): Promise<LoadedDocument> {
+  const pages: string[] = [];
+  let pdfData: PdfData;
+  try {
+    pdfData = await pdf(fileBuffer, {
+      // Mirrors pdf-parse's default renderer, but records each page's text
+      pagerender: async (pageData: PdfPage) => {
+        const textContent = await pageData.getTextContent({
+          normalizeWhitespace: false,
+          disableCombineTextItems: false,
+        });
+        let lastY: number | undefined;
+        let text = "";
+        for (const item of textContent.items) {
+          text += lastY === item.transform[5] || !lastY ? item.str : "\n" + item.str;
+          lastY = item.transform[5];
+        }
+        // Pages that fail to render stay empty
+        pages[pageData.pageIndex] = text;
+        return text;
+      },
+    });
+  } catch (e) {
+    console.error("pdf-parse error:", e);
+    const message = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to parse PDF file: ${message}`);
+  }
+
+  const numpages = pdfData?.numpages || pages.length || 1;
+  return {
+    format: "pdf",
+    sections: Array.from({ length: numpages }, (_, idx) => ({
+      text: pages[idx] || "",
+      pageNumber: idx + 1,
+    })),
+    pageCount: numpages,
+    title: pdfData?.info?.Title || undefined,
+  };
+}
+
+/**
+ * Word documents are converted to HTML so headings survive as <h1>..<h6>
+ */
+async function loadDocx(fileBuffer: Buffer): Promise<LoadedDocument> {
+  let html: string;
+  try {
+    html = (await mammoth.convertToHtml({ buffer: fileBuffer })).value;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new Error(`Failed to parse DOCX file: ${message}`);
+  }
+  return { ...loadHtml(html), format: "docx" };
+}
+
+const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+const BLOCK_TAGS = new Set([
+  "p", "li", "pre", "blockquote", "td", "th", "dt", "dd", "figcaption", "caption",
+]);
+const IGNORED_TAGS = ["script", "style", "noscript", "nav", "template", "svg"];
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\r\f\v]+/g, " ").replace(/\s*\n\s*/g, "\n").trim();
+}
+
+/**
+ * Tracks the current heading path and groups text into sections under it
+ */
+class SectionBuilder {
+  private readonly sections: LoadedSection[] = [];
+  private headings: string[] = [];
+  private levels: number[] = [];
+  private current: string[] = [];
+
+  heading(level: number, title: string): void {
+    this.flush();
+    while (this.levels.length > 0 && this.levels[this.levels.length - 1] >= level) {
+      this.levels.pop();
+      this.headings.pop();
+    }
+    this.levels.push(level);
+    this.headings.push(title);
+    this.current.push(title);
+  }
+
+  text(text: string): void {
+    if (text) this.current.push(text);
+  }
+
+  build(): LoadedSection[] {
+    this.flush();
+    return this.sections;
+  }
+
+  private flush(): void {
+    if (this.current.length === 0) return;
+    this.sections.push({
+      text: this.current.join("\n\n"),
+      headings: this.headings.length > 0 ? [...this.headings] : undefined,
+    });
+    this.current = [];
+  }
+}
+
+function hasBlockAncestor(element: HTMLElement): boolean {
+  for (let parent = element.parentNode; parent; parent = parent.parentNode) {
+    if (BLOCK_TAGS.has(parent.rawTagName?.toLowerCase())) return true;
+  }
+  return false;
+}
+
+function loadHtml(html: string): LoadedDocument {
+  const root = parseHtml(html);
+  for (const tag of IGNORED_TAGS) {
+    root.querySelectorAll(tag).forEach((element) => element.remove());
+  }
+
+  const title = collapseWhitespace(root.querySelector("title")?.text || "") || undefined;
+  const body = root.querySelector("body") || root;
+  const builder = new SectionBuilder();
+
+  const elements = body.querySelectorAll([...HEADING_TAGS, ...BLOCK_TAGS].join(","));
+  for (const element of elements) {
+    const tag = element.rawTagName.toLowerCase();
+    const text = collapseWhitespace(element.text);
+    if (HEADING_TAGS.has(tag)) {
+      if (text) builder.heading(Number(tag[1]), text);
+    } else if (!hasBlockAncestor(element)) {
+      builder.text(text);
+    }
+  }
+
+  let sections = builder.build();
+  // Pages built from bare <div>s: fall back to the page's text layout
+  if (sections.length === 0) {
+    sections = [{ text: collapseWhitespace(body.structuredText) }];
+  }
+
+  return { format: "html", sections, pageCount: 1, title };
+}
+
+function loadMarkdown(markdown: string): LoadedDocument {
+  const builder = new SectionBuilder();
+  let title: string | undefined;
+  let inFence = false;
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    builder.text(paragraph.join("\n").trim());
+    paragraph = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      builder.heading(heading[1].length, heading[2]);
+      title ??= heading[1].length === 1 ? heading[2] : undefined;
+    } else if (!inFence && line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return { format: "markdown", sections: builder.build(), pageCount: 1, title };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { LruCache } from "./lruCache";
+
+describe("LruCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+    expect(cache.has("c")).toBe(true);
+    expect(cache.stats().evictions).toBe(1);
+  });
+
+  it("bounds the total size of entries", () => {
+    const cache = new LruCache<string, string>(10, (value) => value.length);
+    cache.set("a", "xxxx");
+    cache.set("b", "xxxx");
+    cache.set("c", "xxxx");
+
+    expect(cache.has("a")).toBe(false);
+    expect(cache.stats()).toMatchObject({ entries: 2, size: 8, maxSize: 10 });
+  });
+
+  it("keeps the newest entry even if it alone exceeds the budget", () => {
+    const cache = new LruCache<string, string>(3, (value) => value.length);
+    cache.set("small", "x");
+    cache.set("large", "xxxxxx");
+
+    expect(cache.has("small")).toBe(false);
+    expect(cache.get("large")).toBe("xxxxxx");
+    expect(cache.stats().size).toBe(6);
+  });
+
+  it("replaces an entry's size when it is set again", () => {
+    const cache = new LruCache<string, string>(10, (value) => value.length);
+    cache.set("a", "xxxxxx");
+    cache.set("a", "xx");
+
+    expect(cache.stats()).toMatchObject({ entries: 1, size: 2, evictions: 0 });
+  });
+
+  it("frees an entry's size on delete", () => {
+    const cache = new LruCache<string, number>(5);
+    cache.set("a", 1);
+
+    expect(cache.delete("a")).toBe(true);
+    expect(cache.delete("a")).toBe(false);
+    expect(cache.stats()).toMatchObject({ entries: 0, size: 0 });
+  });
+
+  it("counts hits and misses", () => {
+    const cache = new LruCache<string, number>(5);
+    cache.set("a", 1);
+    cache.get("a");
+    cache.get("a");
+    cache.get("b");
+
+    expect(cache.stats()).toMatchObject({ hits: 2, misses: 1 });
+    expect(cache.stats().hitRate).toBeCloseTo(2 / 3);
+  });
+
+  it("does not count has() as a use", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.has("a");
+    cache.set("c", 3);
+
+    expect(cache.has("a")).toBe(false);
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 0 });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Least-recently-used cache bounded by a size budget. Each entry has a size
+ * (1 by default, so maxSize is an entry count); the least recently used
+ * entries are evicted once the total exceeds maxSize.
+ */
+export interface CacheStats {
+  entries: number;
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+export class LruCache<K, V> {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private readonly entries = new Map<K, { value: V; size: number }>();
+  private totalSize = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly maxSize: number,
+    private readonly sizeOf: (value: V) => number = () => 1
+  ) {}
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  set(key: K, value: V): void {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    this.entries.set(key, { value, size });
+    this.totalSize += size;
+
+    // Always keep the newest entry, even if it alone exceeds the budget
+    for (const [oldest, entry] of this.entries) {
+      if (this.totalSize <= this.maxSize || oldest === key) break;
+      this.entries.delete(oldest);
+      this.totalSize -= entry.size;
+      this.evictions++;
+    }
+  }
+
+  delete(key: K): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    this.totalSize -= entry.size;
+    return true;
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      size: this.totalSize,
+      maxSize: this.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import { getQueryEmbeddingCacheStats } from "./embeddingPipeline";
+import type { CacheStats } from "./lruCache";
+import { getVectorStoreCacheStats } from "./vectorStore";
+
+/**
+ * In-process metrics in the Prometheus text exposition format. Counters and
+ * histograms are recorded as requests finish (see src/tracing.ts) or are
+ * rate limited; cache gauges are read when the metrics are rendered. Values
+ * reset on restart.
+ */
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+  type: "counter" | "histogram";
+  help: string;
+  // Upper bounds of histogram buckets
+  buckets?: number[];
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const METRICS = {
+  rag_requests_total: { type: "counter", help: "Traced requests by route and outcome" },
+  rag_request_duration_seconds: {
+    type: "histogram",
+    help: "End-to-end request latency",
+    buckets: LATENCY_BUCKETS,
+  },
+  rag_retrieval_duration_seconds: {
+    type: "histogram",
+    help: "Retrieval (and re-ranking) latency",
+    buckets: LATENCY_BUCKETS,
+  },
+  rag_llm_duration_seconds: {
+    type: "histogram",
+    help: "Latency of LLM calls by purpose",
+    buckets: LATENCY_BUCKETS,
+  },
+  rag_llm_tokens_total: { type: "counter", help: "LLM tokens by model and type (prompt or completion)" },
+  rag_llm_cost_usd_total: { type: "counter", help: "Estimated LLM cost in US dollars by model" },
+  rag_rate_limited_total: { type: "counter", help: "Requests rejected by a rate limit or quota, by limit" },
+} satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof METRICS;
+
+const counters = new Map<MetricName, Map<string, number>>();
+const histograms = new Map<MetricName, Map<string, HistogramValue>>();
+
+/**
+ * Labels as a stable Prometheus label set, e.g. {model="gpt-4o-mini",type="prompt"}
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return "";
+  const escaped = entries.map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return `{${escaped.join(",")}}`;
+}
+
+export function incrementCounter(name: MetricName, labels: Labels = {}, value = 1): void {
+  const series = counters.get(name) ?? new Map<string, number>();
+  const key = formatLabels(labels);
+  series.set(key, (series.get(key) || 0) + value);
+  counters.set(name, series);
+}
+
+export function observeHistogram(name: MetricName, value: number, labels: Labels = {}): void {
+  const buckets = (METRICS[name] as MetricDefinition).buckets ?? LATENCY_BUCKETS;
+  const series = histograms.get(name) ?? new Map<string, HistogramValue>();
+  const key = formatLabels(labels);
+  const histogram = series.get(key) ?? { counts: new Array(buckets.length).fill(0), sum: 0, count: 0 };
+
+  buckets.forEach((bound, idx) => {
+    if (value <= bound) histogram.counts[idx]++;
+  });
+  histogram.sum += value;
+  histogram.count++;
+  series.set(key, histogram);
+  histograms.set(name, series);
+}
+
+/**
+ * Insert `le` into an already formatted label set
+ */
+function withBucketLabel(key: string, bound: string): string {
+  return key ? `${key.slice(0, -1)},le="${bound}"}` : `{le="${bound}"}`;
+}
+
+function renderCacheMetrics(): string[] {
+  const caches: Array<[string, CacheStats]> = [
+    ["vector_stores", getVectorStoreCacheStats()],
+    ["query_embeddings", getQueryEmbeddingCacheStats()],
+  ];
+  const gauges: Array<[string, string, string, (stats: CacheStats) => number]> = [
+    ["rag_cache_entries", "gauge", "Entries held by each in-memory cache", (stats) => stats.entries],
+    ["rag_cache_size", "gauge", "Size of each cache (bytes for vector_stores, entries otherwise)", (stats) => stats.size],
+    ["rag_cache_hits_total", "counter", "Cache hits", (stats) => stats.hits],
+    ["rag_cache_misses_total", "counter", "Cache misses", (stats) => stats.misses],
+    ["rag_cache_evictions_total", "counter", "Cache evictions", (stats) => stats.evictions],
+  ];
+
+  return gauges.flatMap(([name, type, help, value]) => [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...caches.map(([cache, stats]) => `${name}${formatLabels({ cache })} ${value(stats)}`),
+  ]);
+}
+
+/**
+ * All metrics in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const [name, definition] of Object.entries(METRICS) as Array<[MetricName, MetricDefinition]>) {
+    lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`);
+
+    if (definition.type === "counter") {
+      for (const [key, value] of counters.get(name) ?? []) {
+        lines.push(`${name}${key} ${value}`);
+      }
+      continue;
+    }
+
+    const buckets = definition.buckets ?? LATENCY_BUCKETS;
+    for (const [key, histogram] of histograms.get(name) ?? []) {
+      buckets.forEach((bound, idx) => {
+        lines.push(`${name}_bucket${withBucketLabel(key, String(bound))} ${histogram.counts[idx]}`);
+      });
+      lines.push(
+        `${name}_bucket${withBucketLabel(key, "+Inf")} ${histogram.count}`,
+        `${name}_sum${key} ${histogram.sum}`,
+        `${name}_count${key} ${histogram.count}`
+      );
+    }
+  }
+
+  lines.push(...renderCacheMetrics());
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import path from "path";
+import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+import { loadVectorStoreMetadata } from "./vectorStore";
+
+/**
+ * Assistant profiles: persona, answer style and topic guardrails used to
+ * assemble the system prompt. Stored as one JSON file per profile, except the
+ * built-in default, which is read-only.
+ */
+export const ProfileInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  persona: z.string().min(1).max(2000),
+  answerStyle: z.string().max(2000).default(""),
+  allowedTopics: z.array(z.string().min(1)).default([]),
+  excludedTopics: z.array(z.string().min(1)).default([]),
+  refusalMessage: z
+    .string()
+    .max(1000)
+    .default("That information is unavailable in the provided documents."),
+});
+
+export type ProfileInput = z.infer<typeof ProfileInputSchema>;
+
+export interface AssistantProfile extends ProfileInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const DEFAULT_PROFILE_ID = "default";
+
+const DEFAULT_PROFILE: AssistantProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: "Document assistant",
+  persona: "You are a helpful assistant that answers questions based on provided documents.",
+  answerStyle: "",
+  allowedTopics: [],
+  excludedTopics: [],
+  refusalMessage: "That information is unavailable in the provided documents.",
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+};
+
+const PROFILES_DIR = path.join(process.cwd(), ".assistant_profiles");
+
+// Profile IDs become file names, so keep them to a safe character set
+const PROFILE_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+function profilePath(id: string): string {
+  if (!PROFILE_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid profile id: ${id}`);
+  }
+  return path.join(PROFILES_DIR, `${id}.json`);
+}
+
+function writeProfile(profile: AssistantProfile): void {
+  fs.mkdirSync(PROFILES_DIR, { recursive: true });
+  fs.writeFileSync(profilePath(profile.id), JSON.stringify(profile, null, 2));
+}
+
+export function isBuiltInProfile(id: string): boolean {
+  return id === DEFAULT_PROFILE_ID;
+}
+
+/**
+ * Get a profile by id; the built-in default profile is always available
+ */
+export function getProfile(id: string): AssistantProfile | null {
+  if (isBuiltInProfile(id)) return DEFAULT_PROFILE;
+  if (!PROFILE_ID_PATTERN.test(id)) return null;
+
+  const filePath = profilePath(id);
+  if (fs.existsSync(filePath)) {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as AssistantProfile;
+  }
+  return null;
+}
+
+/**
+ * List all profiles, built-in default first
+ */
+export function listProfiles(): AssistantProfile[] {
+  const stored = fs.existsSync(PROFILES_DIR)
+    ? fs
+        .readdirSync(PROFILES_DIR)
+        .filter((file) => file.endsWith(".json") && !isBuiltInProfile(path.basename(file, ".json")))
+        .map((file) => JSON.parse(fs.readFileSync(path.join(PROFILES_DIR, file), "utf-8")) as AssistantProfile)
+    : [];
+
+  return [DEFAULT_PROFILE, ...stored];
+}
+
+export function createProfile(input: ProfileInput, id: string = uuidv4()): AssistantProfile {
+  if (!PROFILE_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid profile id: ${id}`);
+  }
+  if (isBuiltInProfile(id) || fs.existsSync(profilePath(id))) {
+    throw new Error(`Profile ${id} already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const profile: AssistantProfile = { ...input, id, createdAt: now, updatedAt: now };
+  writeProfile(profile);
+  return profile;
+}
+
+export function updateProfile(id: string, changes: Partial<ProfileInput>): AssistantProfile | null {
+  if (isBuiltInProfile(id)) {
+    throw new Error(`Profile ${id} is built in and cannot be changed`);
+  }
+  const existing = getProfile(id);
+  if (!existing) return null;
+
+  const profile: AssistantProfile = {
+    ...existing,
+    ...changes,
+    id,
+    updatedAt: new Date().toISOString(),
+  };
+  writeProfile(profile);
+  return profile;
+}
+
+export function deleteProfile(id: string): boolean {
+  if (isBuiltInProfile(id) || !PROFILE_ID_PATTERN.test(id)) return false;
+
+  const filePath = profilePath(id);
+  if (!fs.existsSync(filePath)) return false;
+  fs.rmSync(filePath);
+  return true;
+}
+
+/**
+ * Pick the profile for a request: an explicit profileId wins, then the first
+ * selected store with an attached profile, then the default profile
+ */
+export function resolveProfile(profileId?: string, storeIds: string[] = []): AssistantProfile {
+  if (profileId) {
+    const profile = getProfile(profileId);
+    if (!profile) {
+      throw new Error(`Profile ${profileId} not found`);
+    }
+    return profile;
+  }
+
+  for (const storeId of storeIds) {
+    const attached = loadVectorStoreMetadata(storeId)?.profileId;
+    if (typeof attached === "string") {
+      const profile = getProfile(attached);
+      if (profile) return profile;
+      console.warn(`Store ${storeId} references missing profile ${attached}`);
+    }
+  }
+
+  return DEFAULT_PROFILE;
+}
+
+/**
+ * Assemble the system prompt from a profile and the retrieved context
+ */
+export function buildSystemPrompt(profile: AssistantProfile, context: string): string {
+  const sections = [
+    `${profile.persona}
+You MUST respond in the following JSON format:
+{
+  "answer": "Your detailed answer here",
+  "citations": [
+    {"sourceNumber": 1, "text": "exact quote from that source"}
+  ],
+  "confidence": "high|medium|low"
+}
+
+For each claim, cite the [Source N] block it comes from by its number N and copy the supporting text from that block word for word.`,
+  ];
+
+  if (profile.answerStyle.trim()) {
+    sections.push(`Answer style: ${profile.answerStyle.trim()}`);
+  }
+
+  if (profile.allowedTopics.length > 0) {
+    sections.push(
+      `Only answer questions about: ${profile.allowedTopics.join("; ")}. If the question is about anything else, set "answer" to "${profile.refusalMessage}" and confidence to 'low'.`
+    );
+  }
+
+  if (profile.excludedTopics.length > 0) {
+    sections.push(
+      `Do NOT provide information on: ${profile.excludedTopics.join("; ")}, even if it is retrieved in the context. If the question asks about an excluded subject, set "answer" to "${profile.refusalMessage}" and confidence to 'low'.`
+    );
+  }
+
+  sections.push(
+    `If the context does not contain relevant, citable information to answer the question, say so (for example: "${profile.refusalMessage}") and set confidence to 'low'.`
+  );
+
+  sections.push(`Context (documents):\n${context}`);
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,514 @@
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import {
+  BaseChatModel,
+  SimpleChatModel,
+} from "@langchain/core/language_models/chat_models";
+import { Embeddings } from "@langchain/core/embeddings";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { AIMessageChunk, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk } from "@langchain/core/outputs";
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+import type { Runnable } from "@langchain/core/runnables";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import { z } from "zod";
+
+/**
+ * Chat and embedding models are exposed through LangChain's base classes so
+ * callers can invoke/stream without knowing which provider is configured
+ */
+export type ChatModel = BaseChatModel;
+export type EmbeddingModel = Embeddings;
+
+/**
+ * A chat model constrained to emit JSON, where the provider supports it
+ */
+export type StructuredChatModel = Runnable<BaseLanguageModelInput, AIMessageChunk>;
+
+/**
+ * How JSON output is requested from the provider:
+ * - "json_schema": native structured output against the response schema
+ * - "json_object": JSON mode (widely supported by OpenAI-compatible servers)
+ * - "none": rely on prompt instructions only
+ */
+export type StructuredOutputMode = "json_schema" | "json_object" | "none";
+
+/**
+ * Supported providers:
+ * - "openai": OpenAI, or an OpenRouter-style proxy via OPENAI_*_BASE_URL
+ * - "openai-compatible": any local server speaking the OpenAI API
+ *   (Ollama, LM Studio, vLLM, ...) at OPENAI_COMPATIBLE_BASE_URL
+ * - "fake": deterministic offline provider for development and tests
+ */
+export type ProviderName = "openai" | "openai-compatible" | "fake";
+
+const PROVIDER_NAMES: ProviderName[] = ["openai", "openai-compatible", "fake"];
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const FAKE_EMBEDDING_DIMENSIONS = 256;
+
+function parseProvider(value: string | undefined, fallback: ProviderName): ProviderName {
+  if (!value) return fallback;
+  const provider = value.trim().toLowerCase() as ProviderName;
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(
+      `Unknown provider "${value}". Expected one of: ${PROVIDER_NAMES.join(", ")}`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Provider for chat completions (LLM_PROVIDER, default "openai")
+ */
+export function getChatProviderName(): ProviderName {
+  return parseProvider(process.env.LLM_PROVIDER, "openai");
+}
+
+/**
+ * Provider for embeddings (EMBEDDINGS_PROVIDER, defaults to LLM_PROVIDER)
+ */
+export function getEmbeddingProviderName(): ProviderName {
+  return parseProvider(process.env.EMBEDDINGS_PROVIDER, getChatProviderName());
+}
+
+/**
+ * Resolved chat model name for the configured provider
+ */
+export function getChatModelName(): string {
+  switch (getChatProviderName()) {
+    case "fake":
+      return "fake-chat";
+    case "openai-compatible":
+      return process.env.OPENAI_COMPATIBLE_CHAT_MODEL || "llama3.1";
+    case "openai":
+      return (
+        process.env.CHAT_MODEL ||
+        (process.env.OPENAI_CHAT_BASE_URL ? "openai/gpt-4o-mini" : "gpt-4o-mini")
+      );
+  }
+}
+
+/**
+ * Resolved embedding model name for the configured provider
+ */
+export function getEmbeddingModelName(): string {
+  switch (getEmbeddingProviderName()) {
+    case "fake":
+      return `hash-${FAKE_EMBEDDING_DIMENSIONS}`;
+    case "openai-compatible":
+      return process.env.OPENAI_COMPATIBLE_EMBEDDINGS_MODEL || "nomic-embed-text";
+    case "openai":
+      return (
+        process.env.EMBEDDINGS_MODEL ||
+        (process.env.OPENAI_EMBEDDINGS_BASE_URL
+          ? "openai/text-embedding-3-small"
+          : "text-embedding-3-small")
+      );
+  }
+}
+
+/**
+ * Stable identifier of the embedding model, recorded with each vector store
+ * so vectors from different models are never compared
+ */
+export function getEmbeddingModelId(): string {
+  return `${getEmbeddingProviderName()}:${getEmbeddingModelName()}`;
+}
+
+function getOpenAICompatibleBaseURL(): string {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseURL) {
+    throw new Error("OPENAI_COMPATIBLE_BASE_URL is required for the openai-compatible provider");
+  }
+  return baseURL;
+}
+
+/**
+ * Describe the chat provider for logs
+ */
+export function describeChatProvider(): { provider: ProviderName; model: string; baseURL?: string } {
+  const provider = getChatProviderName();
+  switch (provider) {
+    case "fake":
+      return { provider, model: getChatModelName() };
+    case "openai-compatible":
+      return { provider, model: getChatModelName(), baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL };
+    case "openai":
+      return {
+        provider,
+        model: getChatModelName(),
+        baseURL: process.env.OPENAI_CHAT_BASE_URL || process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+      };
+  }
+}
+
+/**
+ * Returns an error message if the configured providers are missing required
+ * settings, or null if they are ready to use
+ */
+export function getProviderConfigError(): string | null {
+  const providers = new Set([getChatProviderName(), getEmbeddingProviderName()]);
+  if (providers.has("openai") && !process.env.OPENAI_API_KEY) {
+    return "OpenAI API key not configured";
+  }
+  if (providers.has("openai-compatible") && !process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    return "OPENAI_COMPATIBLE_BASE_URL not configured";
+  }
+  return null;
+}
+
+/**
+ * Create the configured chat model
+ */
+export function getChatModel({ temperature = 0.2 }: { temperature?: number } = {}): ChatModel {
+  switch (getChatProviderName()) {
+    case "fake":
+      return new FakeChatModel();
+    case "openai-compatible":
+      return new ChatOpenAI({
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        model: getChatModelName(),
+        temperature,
+        configuration: { baseURL: getOpenAICompatibleBaseURL() },
+      });
+    case "openai":
+      return new ChatOpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: getChatModelName(),
+        temperature,
+        configuration: {
+          baseURL: process.env.OPENAI_CHAT_BASE_URL || process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        },
+      });
+  }
+}
+
+/**
+ * Structured output mode (STRUCTURED_OUTPUT_MODE), defaulting by provider
+ */
+export function getStructuredOutputMode(): StructuredOutputMode {
+  const mode = process.env.STRUCTURED_OUTPUT_MODE as StructuredOutputMode | undefined;
+  if (mode === "json_schema" || mode === "json_object" || mode === "none") {
+    return mode;
+  }
+
+  switch (getChatProviderName()) {
+    case "openai":
+      return "json_schema";
+    case "openai-compatible":
+      return "json_object";
+    case "fake":
+      return "none";
+  }
+}
+
+/**
+ * Create the configured chat model, asking the provider to produce JSON that
+ * matches `schema` where it can. Output must still be validated by the caller.
+ */
+export function getStructuredChatModel(
+  name: string,
+  schema: z.ZodTypeAny,
+  { temperature = 0.2 }: { temperature?: number } = {}
+): StructuredChatModel {
+  const model = getChatModel({ temperature });
+  const mode = getStructuredOutputMode();
+  if (!(model instanceof ChatOpenAI) || mode === "none") {
+    return model;
+  }
+
+  return model.withConfig({
+    response_format:
+      mode === "json_schema"
+        ? {
+            type: "json_schema",
+            json_schema: { name, schema: toJsonSchema(schema) as Record<string, unknown>, strict: false },
+          }
+        : { type: "json_object" },
+  });
+}
+
+/**
+ * Create the configured embedding model
+ */
+export function getEmbeddingModel(): EmbeddingModel {
+  switch (getEmbeddingProviderName()) {
+    case "fake":
+      return new HashEmbeddings(FAKE_EMBEDDING_DIMENSIONS);
+    case "openai-compatible":
+      return new OpenAIEmbeddings({
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        model: getEmbeddingModelName(),
+        // Retries are handled by the embedding pipeline
+        maxRetries: 0,
+        configuration: { baseURL: getOpenAICompatibleBaseURL() },
+      });
+    case "openai":
+      return new OpenAIEmbeddings({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: getEmbeddingModelName(),
+        maxRetries: 0,
+        configuration: {
+          baseURL:
+            process.env.OPENAI_EMBEDDINGS_BASE_URL || process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        },
+      });
+  }
+}
+
+/**
+ * Re-rankers score how relevant each passage is to a query (higher is more
+ * relevant; scales differ between implementations):
+ * - "llm": the configured chat model rates every passage in one prompt
+ * - "cross-encoder": a local cross-encoder served over HTTP at
+ *   RERANKER_BASE_URL (Text Embeddings Inference, Infinity, llama.cpp, ...)
+ */
+export interface Reranker {
+  name: RerankerName;
+  score(query: string, passages: string[], options?: RerankCallOptions): Promise<number[]>;
+}
+
+// Callbacks only apply to re-rankers that call the chat model
+export type RerankCallOptions = { signal?: AbortSignal; callbacks?: Callbacks };
+
+export type RerankerName = "llm" | "cross-encoder";
+
+export const RERANKER_NAMES: RerankerName[] = ["llm", "cross-encoder"];
+
+/**
+ * Create a re-ranker
+ */
+export function getReranker(name: RerankerName): Reranker {
+  switch (name) {
+    case "llm":
+      return new LLMReranker();
+    case "cross-encoder":
+      return new CrossEncoderReranker();
+  }
+}
+
+// Passages are truncated before being sent to a re-ranker
+const MAX_RERANK_PASSAGE_CHARS = 1500;
+
+const RerankScoresSchema = z.object({
+  scores: z.array(z.object({ passage: z.number().int(), score: z.number() })),
+});
+
+/**
+ * Rates all passages 0-10 in a single chat completion
+ */
+class LLMReranker implements Reranker {
+  readonly name = "llm" as const;
+
+  async score(query: string, passages: string[], { signal, callbacks }: RerankCallOptions = {}): Promise<number[]> {
+    const model = getChatModel({ temperature: 0 });
+    const prompt = `Rate how relevant each passage is to the question, from 0 (irrelevant) to 10 (directly answers it).
+
+Question: ${query}
+
+${passages
+  .map((passage, idx) => `[Passage ${idx + 1}]\n${passage.substring(0, MAX_RERANK_PASSAGE_CHARS)}`)
+  .join("\n\n")}
+
+Respond with ONLY a JSON object like {"scores": [{"passage": 1, "score": 7}, ...]} covering every passage.`;
+
+    const response = await model.invoke([new HumanMessage(prompt)], { signal, callbacks });
+    const content = typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    const parsed = RerankScoresSchema.safeParse(jsonMatch ? JSON.parse(jsonMatch[0]) : null);
+    if (!parsed.success) {
+      throw new Error("Re-ranker response did not contain passage scores");
+    }
+
+    // Passages the model skipped count as irrelevant
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const { passage, score } of parsed.data.scores) {
+      if (passage >= 1 && passage <= passages.length) scores[passage - 1] = score;
+    }
+    return scores;
+  }
+}
+
+/**
+ * Calls a /rerank endpoint (RERANKER_BASE_URL, with optional RERANKER_MODEL
+ * and RERANKER_API_KEY). Accepts both the Text Embeddings Inference response
+ * ([{ index, score }]) and the Cohere/Jina-style one ({ results: [{ index, relevance_score }] }).
+ */
+class CrossEncoderReranker implements Reranker {
+  readonly name = "cross-encoder" as const;
+
+  async score(query: string, passages: string[], { signal }: RerankCallOptions = {}): Promise<number[]> {
+    const baseURL = process.env.RERANKER_BASE_URL;
+    if (!baseURL) {
+      throw new Error("RERANKER_BASE_URL is required for the cross-encoder re-ranker");
+    }
+
+    const documents = passages.map((passage) => passage.substring(0, MAX_RERANK_PASSAGE_CHARS));
+    const response = await fetch(`${baseURL.replace(/\/$/, "")}/rerank`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.RERANKER_API_KEY && { Authorization: `Bearer ${process.env.RERANKER_API_KEY}` }),
+      },
+      body: JSON.stringify({
+        model: process.env.RERANKER_MODEL,
+        query,
+        documents,
+        texts: documents,
+        top_n: documents.length,
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Re-ranker request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as
+      | Array<{ index: number; score: number }>
+      | { results: Array<{ index: number; relevance_score: number }> };
+    const results = Array.isArray(body)
+      ? body
+      : body.results.map(({ index, relevance_score }) => ({ index, score: relevance_score }));
+
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const { index, score } of results) scores[index] = score;
+    return scores;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Deterministic bag-of-words embeddings using the hashing trick: texts that
+ * share words get similar vectors, so offline retrieval still behaves sensibly
+ */
+export class HashEmbeddings extends Embeddings {
+  constructor(private readonly dimensions: number) {
+    super({});
+  }
+
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const hash = fnv1a(token);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embedText(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embedText(document);
+  }
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+}
+
+/**
+ * Deterministic chat model returning templated answers built from the
+ * prompt, so the full chat flow can run without network access
+ */
+export class FakeChatModel extends SimpleChatModel {
+  constructor() {
+    super({});
+  }
+
+  _llmType(): string {
+    return "fake";
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    const system = messages.find((message) => message.getType() === "system");
+    const systemText = system ? messageText(system) : "";
+    const lastText = messages.length > 0 ? messageText(messages[messages.length - 1]) : "";
+
+    // Standalone-question rewriting: echo the follow-up question
+    const followUp = lastText.match(/Follow-up question:\s*([\s\S]*)$/);
+    if (followUp) {
+      return followUp[1].trim();
+    }
+
+    // Topic suggestions: the most frequent longer words in the excerpt
+    if (/suggest \d+ key topics/i.test(lastText)) {
+      const counts = new Map<string, number>();
+      for (const token of tokenize(lastText)) {
+        if (token.length < 6) continue;
+        counts.set(token, (counts.get(token) || 0) + 1);
+      }
+      const topics = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, 5)
+        .map(([token]) => token.charAt(0).toUpperCase() + token.slice(1));
+      return JSON.stringify(topics);
+    }
+
+    // Re-ranking: score each passage by the share of question words it contains
+    const rerankQuestion = lastText.match(/^Question: (.*)$/m);
+    if (rerankQuestion && /Rate how relevant each passage/.test(lastText)) {
+      const questionTokens = new Set(tokenize(rerankQuestion[1]));
+      const passages = Array.from(lastText.matchAll(/\[Passage (\d+)\]\n([\s\S]*?)(?=\n\n\[Passage |\n\nRespond with)/g));
+      return JSON.stringify({
+        scores: passages.map(([, passage, text]) => {
+          const tokens = new Set(tokenize(text));
+          const matched = Array.from(questionTokens).filter((token) => tokens.has(token)).length;
+          return {
+            passage: Number(passage),
+            score: questionTokens.size > 0 ? Math.round((10 * matched) / questionTokens.size) : 0,
+          };
+        }),
+      });
+    }
+
+    // RAG answer: quote the first retrieved source
+    const sources = Array.from(
+      systemText.matchAll(/\[Source (\d+)\]\n([\s\S]*?)\n\(File: ([^,)]*)[^)]*\)/g)
+    );
+    if (sources.length > 0) {
+      const [, , text, file] = sources[0];
+      const firstSentence = text.trim().split(/(?<=[.!?])\s/)[0].substring(0, 300);
+      return JSON.stringify({
+        answer: `Based on ${file}: ${firstSentence}`,
+        citations: sources.slice(0, 3).map(([, sourceNumber, sourceText]) => ({
+          sourceNumber: Number(sourceNumber),
+          text: sourceText.trim().substring(0, 200),
+        })),
+        confidence: "medium",
+      });
+    }
+
+    return `This is an offline response to: ${lastText}`;
+  }
+
+  async *_streamResponseChunks(messages: BaseMessage[]): AsyncGenerator<ChatGenerationChunk> {
+    const text = await this._call(messages);
+
+    // Emit word-sized chunks to mimic token streaming
+    for (const piece of text.match(/\S+\s*|\s+/g) || []) {
+      yield new ChatGenerationChunk({
+        text: piece,
+        message: new AIMessageChunk({ content: piece }),
+      });
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Principal } from "./auth";
+import { consumeUsage, getClientId, getLimits, getUsage, recordUsage } from "./rateLimits";
+
+// Counters live in the shared in-memory store, so each test uses its own client
+let clientId: string;
+let clients = 0;
+
+beforeEach(() => {
+  clientId = `test-${++clients}`;
+  vi.useFakeTimers({ now: new Date("2026-03-04T10:00:30Z") });
+  vi.stubEnv("RATE_LIMIT_BACKEND", "memory");
+  vi.stubEnv("RATE_LIMITS_DISABLED", "");
+  vi.stubEnv("RATE_LIMIT_CHAT_PER_MINUTE", "3");
+  vi.stubEnv("QUOTA_CHAT_PER_DAY", "5");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+async function used(limit: string): Promise<number | undefined> {
+  return (await getUsage(clientId)).find((usage) => usage.limit === limit)?.used;
+}
+
+describe("consumeUsage", () => {
+  it("allows requests up to the limit, then reports when to retry", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await consumeUsage(clientId, { chatRequests: 1 })).toBeNull();
+    }
+
+    expect(await consumeUsage(clientId, { chatRequests: 1 })).toEqual({
+      limit: "chat_per_minute",
+      max: 3,
+      used: 3,
+      retryAfterSeconds: 30,
+      message: "Rate limit exceeded: at most 3 chat requests per minute",
+    });
+  });
+
+  it("starts counting again in the next window", async () => {
+    for (let i = 0; i < 3; i++) await consumeUsage(clientId, { chatRequests: 1 });
+    expect(await consumeUsage(clientId, { chatRequests: 1 })).not.toBeNull();
+
+    vi.setSystemTime(new Date("2026-03-04T10:01:00Z"));
+    expect(await consumeUsage(clientId, { chatRequests: 1 })).toBeNull();
+    expect(await used("chat_per_minute")).toBe(1);
+    expect(await used("chat_per_day")).toBe(4);
+  });
+
+  it("does not count rejected requests against any limit", async () => {
+    for (let i = 0; i < 3; i++) await consumeUsage(clientId, { chatRequests: 1 });
+    await consumeUsage(clientId, { chatRequests: 1 });
+    await consumeUsage(clientId, { chatRequests: 1 });
+
+    expect(await used("chat_per_minute")).toBe(3);
+    expect(await used("chat_per_day")).toBe(3);
+  });
+
+  it("applies daily quotas across minute windows", async () => {
+    for (let minute = 0; minute < 5; minute++) {
+      vi.setSystemTime(new Date(Date.UTC(2026, 2, 4, 10, minute + 1)));
+      expect(await consumeUsage(clientId, { chatRequests: 1 })).toBeNull();
+    }
+
+    const exceeded = await consumeUsage(clientId, { chatRequests: 1 });
+    expect(exceeded?.limit).toBe("chat_per_day");
+    // Resets at midnight UTC
+    expect(exceeded?.retryAfterSeconds).toBe((24 - 10) * 3600 - 5 * 60);
+  });
+
+  it("lets only `max` concurrent requests through", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 12 }, () => consumeUsage(clientId, { chatRequests: 1 }))
+    );
+
+    expect(results.filter((result) => result === null)).toHaveLength(3);
+    expect(await used("chat_per_minute")).toBe(3);
+  });
+
+  it("rejects an amount larger than what is left", async () => {
+    vi.stubEnv("QUOTA_UPLOAD_BYTES_PER_DAY", "1000");
+    expect(await consumeUsage(clientId, { uploadBytes: 600 })).toBeNull();
+
+    expect((await consumeUsage(clientId, { uploadBytes: 600 }))?.limit).toBe("upload_bytes_per_day");
+    expect(await consumeUsage(clientId, { uploadBytes: 400 })).toBeNull();
+  });
+
+  it("checks a zero amount against a quota that is already used up", async () => {
+    vi.stubEnv("QUOTA_EMBEDDED_TOKENS_PER_DAY", "100");
+    await recordUsage(clientId, "embeddedTokens", 60);
+    expect(await consumeUsage(clientId, { embeddedTokens: 0 })).toBeNull();
+
+    await recordUsage(clientId, "embeddedTokens", 60);
+    expect((await consumeUsage(clientId, { embeddedTokens: 0 }))?.limit).toBe("embedded_tokens_per_day");
+    expect(await used("embedded_tokens_per_day")).toBe(120);
+  });
+
+  it("ignores limits set to 0 and everything when disabled", async () => {
+    vi.stubEnv("RATE_LIMIT_CHAT_PER_MINUTE", "0");
+    expect(getLimits().map((limit) => limit.name)).not.toContain("chat_per_minute");
+    for (let i = 0; i < 5; i++) await consumeUsage(clientId, { chatRequests: 1 });
+    expect((await consumeUsage(clientId, { chatRequests: 1 }))?.limit).toBe("chat_per_day");
+
+    vi.stubEnv("RATE_LIMITS_DISABLED", "true");
+    expect(await consumeUsage(clientId, { chatRequests: 1 })).toBeNull();
+  });
+});
+
+describe("getClientId", () => {
+  const anonymous: Principal = { method: "none", workspaceId: "default" };
+  const request = (forwardedFor?: string) => ({
+    headers: new Headers(forwardedFor ? { "x-forwarded-for": forwardedFor } : {}),
+  });
+
+  it("prefers the API key, then the user", () => {
+    expect(getClientId(request(), { method: "api-key", workspaceId: "w", userId: "u", apiKeyId: "k" })).toBe("key:k");
+    expect(getClientId(request(), { method: "session", workspaceId: "w", userId: "u" })).toBe("user:u");
+  });
+
+  it("does not trust X-Forwarded-For without a trusted proxy", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "");
+    expect(getClientId(request("1.2.3.4"), anonymous)).toBe("anonymous");
+  });
+
+  it("takes the address added by the outermost trusted proxy", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1");
+    expect(getClientId(request("6.6.6.6, 1.2.3.4"), anonymous)).toBe("ip:1.2.3.4");
+
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    expect(getClientId(request("6.6.6.6, 1.2.3.4, 10.0.0.1"), anonymous)).toBe("ip:1.2.3.4");
+    expect(getClientId(request("10.0.0.1"), anonymous)).toBe("anonymous");
+  });
+});
@@ -0,0 +1,434 @@
+import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+import { createClient } from "redis";
+import type { Principal } from "./auth";
+import { incrementCounter } from "./metrics";
+import { redactError } from "./redaction";
+
+/**
+ * Per-client rate limits and daily quotas: chat requests, uploads, uploaded
+ * bytes and embedded tokens. Clients are identified by API key, signed-in
+ * user or (behind a trusted proxy) IP address. Counts are kept in fixed
+ * windows (per minute, per UTC day) in a pluggable counter store: in memory
+ * by default, in files under .rate_limits/ so several server processes on one
+ * host share them, or in Redis for instances on several hosts.
+ */
+export const USAGE_COUNTERS = ["chatRequests", "uploads", "uploadBytes", "embeddedTokens"] as const;
+
+export type UsageCounter = (typeof USAGE_COUNTERS)[number];
+
+export type Usage = Partial<Record<UsageCounter, number>>;
+
+interface LimitDefinition {
+  name: string;
+  counter: UsageCounter;
+  windowMs: number;
+  // Environment variable holding the maximum; 0 turns the limit off
+  env: string;
+  defaultMax: number;
+  // What is counted, for error messages: "chat requests per minute"
+  unit: string;
+}
+
+export interface Limit extends LimitDefinition {
+  max: number;
+}
+
+export interface LimitExceeded {
+  limit: string;
+  max: number;
+  used: number;
+  retryAfterSeconds: number;
+  message: string;
+}
+
+export interface LimitUsage {
+  limit: string;
+  counter: UsageCounter;
+  max: number;
+  used: number;
+  resetAt: string;
+}
+
+/**
+ * Where counters are kept. Keys include their window, and a counter can be
+ * forgotten once `expiresAt` (epoch ms) has passed. `increment` must be
+ * atomic and return the total including its own amount; a negative amount
+ * undoes an earlier increment.
+ */
+export interface CounterStore {
+  get(key: string, expiresAt: number): Promise<number>;
+  increment(key: string, amount: number, expiresAt: number): Promise<number>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const LIMITS: LimitDefinition[] = [
+  {
+    name: "chat_per_minute",
+    counter: "chatRequests",
+    windowMs: MINUTE_MS,
+    env: "RATE_LIMIT_CHAT_PER_MINUTE",
+    defaultMax: 20,
+    unit: "chat requests per minute",
+  },
+  {
+    name: "chat_per_day",
+    counter: "chatRequests",
+    windowMs: DAY_MS,
+    env: "QUOTA_CHAT_PER_DAY",
+    defaultMax: 500,
+    unit: "chat requests per day",
+  },
+  {
+    name: "uploads_per_minute",
+    counter: "uploads",
+    windowMs: MINUTE_MS,
+    env: "RATE_LIMIT_UPLOADS_PER_MINUTE",
+    defaultMax: 5,
+    unit: "uploads per minute",
+  },
+  {
+    name: "uploads_per_day",
+    counter: "uploads",
+    windowMs: DAY_MS,
+    env: "QUOTA_UPLOADS_PER_DAY",
+    defaultMax: 100,
+    unit: "uploads per day",
+  },
+  {
+    name: "upload_bytes_per_day",
+    counter: "uploadBytes",
+    windowMs: DAY_MS,
+    env: "QUOTA_UPLOAD_BYTES_PER_DAY",
+    defaultMax: 500 * 1024 * 1024,
+    unit: "uploaded bytes per day",
+  },
+  {
+    name: "embedded_tokens_per_day",
+    counter: "embeddedTokens",
+    windowMs: DAY_MS,
+    env: "QUOTA_EMBEDDED_TOKENS_PER_DAY",
+    defaultMax: 5_000_000,
+    unit: "embedded tokens per day",
+  },
+];
+
+const RATE_LIMITS_DIR = path.join(process.cwd(), ".rate_limits");
+
+// How often the file store deletes expired counter files
+const FILE_PRUNE_INTERVAL_MS = MINUTE_MS;
+
+// Prefix of counter keys in Redis
+const REDIS_KEY_PREFIX = "rate_limit:";
+
+// Rough characters per token, for estimating embedded tokens from text length
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Counters held in this process; lost on restart and not shared between instances
+ */
+class MemoryCounterStore implements CounterStore {
+  private readonly counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async get(key: string): Promise<number> {
+    return this.current(key);
+  }
+
+  async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+    // No awaits between reading and writing, so increments cannot interleave
+    this.prune();
+    const value = this.current(key) + amount;
+    this.counters.set(key, { value, expiresAt });
+    return value;
+  }
+
+  private current(key: string): number {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+/**
+ * Counters as append-only files under .rate_limits/, one per key and window.
+ * Appends are atomic, so processes sharing the directory never lose an
+ * increment; the value is the sum of the appended amounts, read back right
+ * after appending.
+ */
+class FileCounterStore implements CounterStore {
+  private lastPruned = 0;
+
+  constructor(private readonly dir: string) {}
+
+  private counterPath(key: string, expiresAt: number): string {
+    const hash = createHash("sha256").update(key).digest("hex").substring(0, 32);
+    return path.join(this.dir, `${expiresAt}-${hash}.log`);
+  }
+
+  async get(key: string, expiresAt: number): Promise<number> {
+    return this.read(this.counterPath(key, expiresAt), expiresAt);
+  }
+
+  async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+    const counterPath = this.counterPath(key, expiresAt);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(counterPath, `${amount}\n`);
+    this.prune();
+    return this.read(counterPath, expiresAt);
+  }
+
+  private read(counterPath: string, expiresAt: number): number {
+    if (expiresAt <= Date.now() || !fs.existsSync(counterPath)) return 0;
+    return fs
+      .readFileSync(counterPath, "utf-8")
+      .split("\n")
+      .reduce((sum, line) => sum + (Number(line) || 0), 0);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPruned < FILE_PRUNE_INTERVAL_MS) return;
+    this.lastPruned = now;
+
+    for (const file of fs.readdirSync(this.dir)) {
+      const expiresAt = Number(file.split("-")[0]);
+      if (file.endsWith(".log") && expiresAt <= now) {
+        fs.rmSync(path.join(this.dir, file), { force: true });
+      }
+    }
+  }
+}
+
+/**
+ * Counters in Redis (REDIS_URL, default redis://localhost:6379), shared by
+ * every instance that uses the same server. INCRBY is atomic; each key
+ * expires with its window.
+ */
+class RedisCounterStore implements CounterStore {
+  private client: Promise<ReturnType<typeof createClient>> | null = null;
+
+  constructor(private readonly url: string) {}
+
+  private connect(): Promise<ReturnType<typeof createClient>> {
+    if (!this.client) {
+      // Fail fast while disconnected instead of queueing commands until Redis returns
+      const client = createClient({ url: this.url, disableOfflineQueue: true });
+      client.on("error", (err) => console.error("Rate limit Redis error:", redactError(err)));
+      this.client = client.connect().catch((err) => {
+        this.client = null;
+        throw err;
+      });
+    }
+    return this.client;
+  }
+
+  async get(key: string): Promise<number> {
+    const client = await this.connect();
+    return Number(await client.get(REDIS_KEY_PREFIX + key)) || 0;
+  }
+
+  async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+    const client = await this.connect();
+    const [value] = await client
+      .multi()
+      .incrBy(REDIS_KEY_PREFIX + key, amount)
+      .pExpireAt(REDIS_KEY_PREFIX + key, expiresAt)
+      .exec();
+    return Number(value);
+  }
+}
+
+let counterStore: CounterStore | null = null;
+
+/**
+ * The counter store chosen by RATE_LIMIT_BACKEND: "memory" (the default), "file" or "redis"
+ */
+export function getCounterStore(): CounterStore {
+  if (!counterStore) {
+    const backend = (process.env.RATE_LIMIT_BACKEND || "memory").toLowerCase();
+    if (backend === "file") {
+      counterStore = new FileCounterStore(RATE_LIMITS_DIR);
+    } else if (backend === "redis") {
+      counterStore = new RedisCounterStore(process.env.REDIS_URL || "redis://localhost:6379");
+    } else {
+      if (backend !== "memory") {
+        console.warn(`⚠️ Unknown RATE_LIMIT_BACKEND "${backend}"; keeping rate limit counters in memory`);
+      }
+      counterStore = new MemoryCounterStore();
+    }
+  }
+  return counterStore;
+}
+
+/**
+ * Use another counter store
+ */
+export function setCounterStore(store: CounterStore): void {
+  counterStore = store;
+}
+
+/**
+ * Whether limits are enforced (set RATE_LIMITS_DISABLED=true to turn them all off)
+ */
+export function isRateLimitingEnabled(): boolean {
+  return process.env.RATE_LIMITS_DISABLED !== "true";
+}
+
+/**
+ * Limits in effect, with their maximums from the environment (limits set to 0 are left out)
+ */
+export function getLimits(): Limit[] {
+  return LIMITS.flatMap((definition) => {
+    const value = process.env[definition.env];
+    let max = definition.defaultMax;
+    if (value !== undefined && value !== "") {
+      max = Number(value);
+      if (!Number.isFinite(max) || max < 0) {
+        console.warn(`⚠️ ${definition.env} must be a non-negative number; using ${definition.defaultMax}`);
+        max = definition.defaultMax;
+      }
+    }
+    return max > 0 ? [{ ...definition, max }] : [];
+  });
+}
+
+/**
+ * Number of proxies in front of the app that append to X-Forwarded-For
+ * (TRUSTED_PROXY_HOPS, default 0: the header is not trusted)
+ */
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * Address of the caller as seen by the outermost trusted proxy: the
+ * X-Forwarded-For entry that many hops from the right. Entries further left
+ * are supplied by the client and can be forged, so they are ignored. Null
+ * without a trusted proxy.
+ */
+function getClientIp(headers: Headers): string | null {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) return null;
+
+  const forwarded = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : null;
+}
+
+/**
+ * Who limits are counted against: the API key, else the signed-in user,
+ * else (authentication disabled) the IP address reported by a trusted
+ * proxy. Without one, anonymous callers share a single "anonymous" client.
+ */
+export function getClientId(request: { headers: Headers }, principal: Principal): string {
+  if (principal.apiKeyId) return `key:${principal.apiKeyId}`;
+  if (principal.userId) return `user:${principal.userId}`;
+  const ip = getClientIp(request.headers);
+  return ip ? `ip:${ip}` : "anonymous";
+}
+
+/**
+ * Tokens an embedding model will see for a text of this length (estimate)
+ */
+export function estimateTokens(textLength: number): number {
+  return Math.ceil(textLength / CHARS_PER_TOKEN);
+}
+
+function currentWindow(limit: Limit, now: number): { key: string; resetAt: number } {
+  const start = Math.floor(now / limit.windowMs) * limit.windowMs;
+  return { key: `${limit.counter}:${limit.windowMs}:${start}`, resetAt: start + limit.windowMs };
+}
+
+/**
+ * Count `usage` against every limit on the counters it names, unless that
+ * would exceed one of them. Each counter is incremented first and the new
+ * total compared with the limit, so concurrent requests cannot all slip
+ * under it; on rejection every increment is rolled back. Returns the limit
+ * that was exceeded, or null. A zero amount checks that the quota is not
+ * already used up.
+ */
+export async function consumeUsage(clientId: string, usage: Usage): Promise<LimitExceeded | null> {
+  if (!isRateLimitingEnabled()) return null;
+
+  const store = getCounterStore();
+  const now = Date.now();
+  const limits = getLimits().filter((limit) => usage[limit.counter] !== undefined);
+  const counted: Array<{ key: string; amount: number; resetAt: number }> = [];
+
+  let exceeded: LimitExceeded | null = null;
+  for (const limit of limits) {
+    const amount = usage[limit.counter] ?? 0;
+    const window = currentWindow(limit, now);
+    const key = `${clientId}:${window.key}`;
+    const total = await store.increment(key, amount, window.resetAt);
+    counted.push({ key, amount, resetAt: window.resetAt });
+
+    if (total > limit.max || (amount === 0 && total >= limit.max)) {
+      const used = total - amount;
+      incrementCounter("rag_rate_limited_total", { limit: limit.name });
+      console.warn(`🚦 ${clientId} hit the ${limit.name} limit (${used}/${limit.max})`);
+      exceeded = {
+        limit: limit.name,
+        max: limit.max,
+        used,
+        retryAfterSeconds: Math.max(1, Math.ceil((window.resetAt - now) / 1000)),
+        message: `Rate limit exceeded: at most ${limit.max} ${limit.unit}`,
+      };
+      break;
+    }
+  }
+
+  if (exceeded) {
+    for (const { key, amount, resetAt } of counted) {
+      if (amount > 0) await store.increment(key, -amount, resetAt);
+    }
+  }
+  return exceeded;
+}
+
+/**
+ * Count usage that has already happened (e.g. tokens embedded by a finished
+ * ingestion job) without checking the limits
+ */
+export async function recordUsage(clientId: string, counter: UsageCounter, amount: number): Promise<void> {
+  if (!isRateLimitingEnabled() || amount <= 0) return;
+
+  const store = getCounterStore();
+  const now = Date.now();
+  for (const limit of getLimits().filter((limit) => limit.counter === counter)) {
+    const window = currentWindow(limit, now);
+    await store.increment(`${clientId}:${window.key}`, amount, window.resetAt);
+  }
+}
+
+/**
+ * The client's usage against each limit in the current windows
+ */
+export async function getUsage(clientId: string): Promise<LimitUsage[]> {
+  const store = getCounterStore();
+  const now = Date.now();
+  return Promise.all(
+    getLimits().map(async (limit) => {
+      const window = currentWindow(limit, now);
+      return {
+        limit: limit.name,
+        counter: limit.counter,
+        max: limit.max,
+        used: await store.get(`${clientId}:${window.key}`, window.resetAt),
+        resetAt: new Date(window.resetAt).toISOString(),
+      };
+    })
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * Masking of credentials in text that is logged, stored or returned to
+ * clients. Provider errors can echo API keys or request headers, so errors
+ * pass through here before they leave the process.
+ */
+
+/**
+ * Mask anything that looks like a credential (OpenAI-style keys, our API
+ * keys, bearer tokens) before it is logged or stored
+ */
+export function redactSecrets(text: string): string {
+  return text
+    .replace(/\b(sk|rk)([-_])[A-Za-z0-9_-]{8,}/g, "$1$2[redacted]")
+    .replace(/(Bearer\s+)\S+/gi, "$1[redacted]");
+}
+
+/**
+ * An error's message, with credentials masked
+ */
+export function redactErrorMessage(error: unknown): string {
+  return redactSecrets(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * An error's stack trace (or message), with credentials masked, for server logs
+ */
+export function redactError(error: unknown): string {
+  return redactSecrets(error instanceof Error ? (error.stack ?? error.message) : String(error));
+}
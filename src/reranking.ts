@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { cosineSimilarity } from "./annIndex";
+import { embedTexts } from "./embeddingPipeline";
+import { getReranker, RERANKER_NAMES, type RerankerName } from "./providers";
+import { redactError } from "./redaction";
+import { traceCallbacks, type Trace } from "./tracing";
+
+/**
+ * Post-retrieval stage: an optional re-ranker rescores a deeper candidate
+ * list, then Maximal Marginal Relevance picks the final results, trading
+ * relevance against similarity to results already picked so overlapping
+ * chunks don't crowd each other out.
+ *
+ * Scores are recorded in each result's metadata: `retrievalScore` (before
+ * re-ranking), `rerankScore` (from the re-ranker) and `mmrScore`.
+ */
+export const RerankOptionsSchema = z.object({
+  reranker: z.enum(["none", ...RERANKER_NAMES] as ["none", ...RerankerName[]]).optional(),
+  mmr: z.boolean().optional(),
+  // 1 ranks purely by relevance, 0 purely by diversity
+  mmrLambda: z.number().min(0).max(1).optional(),
+  // How many results to fetch before re-ranking (defaults to 3x the final count)
+  candidates: z.number().int().min(1).max(100).optional(),
+});
+
+export type RerankOptions = z.infer<typeof RerankOptionsSchema>;
+
+interface RerankSettings {
+  reranker: RerankerName | "none";
+  mmr: boolean;
+  mmrLambda: number;
+}
+
+export interface RerankableDocument {
+  pageContent: string;
+  metadata: Record<string, unknown>;
+  score?: number;
+  embedding?: ArrayLike<number>;
+}
+
+const DEFAULT_MMR_LAMBDA = 0.7;
+const CANDIDATE_MULTIPLIER = 3;
+
+/**
+ * Request options over the defaults: RERANKER (default "none"),
+ * RETRIEVAL_MMR (default off), MMR_LAMBDA (default 0.7)
+ */
+function resolveSettings(options: RerankOptions = {}): RerankSettings {
+  const envReranker = process.env.RERANKER as RerankerName | undefined;
+  const envLambda = Number(process.env.MMR_LAMBDA);
+  return {
+    reranker: options.reranker ?? (envReranker && RERANKER_NAMES.includes(envReranker) ? envReranker : "none"),
+    mmr: options.mmr ?? process.env.RETRIEVAL_MMR === "true",
+    mmrLambda:
+      options.mmrLambda ?? (process.env.MMR_LAMBDA && envLambda >= 0 && envLambda <= 1 ? envLambda : DEFAULT_MMR_LAMBDA),
+  };
+}
+
+/**
+ * Whether any post-retrieval stage applies to a request
+ */
+export function isRerankingEnabled(options?: RerankOptions): boolean {
+  const settings = resolveSettings(options);
+  return settings.reranker !== "none" || settings.mmr;
+}
+
+/**
+ * How many candidates to retrieve so the final `topK` can be re-ranked
+ */
+export function getCandidateCount(topK: number, options?: RerankOptions): number {
+  if (!isRerankingEnabled(options)) return topK;
+  return Math.max(topK, options?.candidates ?? topK * CANDIDATE_MULTIPLIER);
+}
+
+/**
+ * Scale scores to [0, 1] so relevance and similarity are comparable in MMR
+ */
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((score) => (max > min ? (score - min) / (max - min) : 1));
+}
+
+/**
+ * Greedy MMR: repeatedly pick the candidate maximising
+ * lambda * relevance - (1 - lambda) * (max similarity to anything picked)
+ */
+export function maximalMarginalRelevance(
+  relevance: number[],
+  embeddings: ArrayLike<number>[],
+  topK: number,
+  lambda: number
+): Array<{ index: number; score: number }> {
+  const normalized = normalize(relevance);
+  const remaining = new Set(relevance.map((_, idx) => idx));
+  const maxSimilarity = new Array<number>(relevance.length).fill(0);
+  const selected: Array<{ index: number; score: number }> = [];
+
+  while (selected.length < topK && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const idx of remaining) {
+      const score = lambda * normalized[idx] - (1 - lambda) * (selected.length > 0 ? maxSimilarity[idx] : 0);
+      if (score > bestScore) {
+        best = idx;
+        bestScore = score;
+      }
+    }
+
+    selected.push({ index: best, score: bestScore });
+    remaining.delete(best);
+    for (const idx of remaining) {
+      maxSimilarity[idx] = Math.max(maxSimilarity[idx], cosineSimilarity(embeddings[idx], embeddings[best]));
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Re-rank retrieved candidates down to `topK` results. If the re-ranker
+ * fails, the retrieval order is kept.
+ */
+export async function rerankDocuments<T extends RerankableDocument>(
+  query: string,
+  candidates: T[],
+  topK: number,
+  options?: RerankOptions,
+  trace?: Trace
+): Promise<T[]> {
+  const settings = resolveSettings(options);
+  let documents = candidates.map((doc) => ({
+    ...doc,
+    metadata: { ...doc.metadata, retrievalScore: doc.score },
+  }));
+
+  if (settings.reranker !== "none" && documents.length > 0) {
+    try {
+      const reranker = getReranker(settings.reranker);
+      const scores = await reranker.score(
+        query,
+        documents.map((doc) => doc.pageContent),
+        { callbacks: traceCallbacks(trace, "rerank") }
+      );
+      documents = documents
+        .map((doc, idx) => ({
+          ...doc,
+          metadata: { ...doc.metadata, rerankScore: scores[idx], reranker: reranker.name },
+          score: scores[idx],
+        }))
+        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    } catch (err) {
+      console.warn(`⚠️ Re-ranking with ${settings.reranker} failed, keeping retrieval order:`, redactError(err));
+    }
+  }
+
+  if (!settings.mmr || documents.length <= 1) {
+    return documents.slice(0, topK);
+  }
+
+  // Chunks from stores come with their stored vectors; embed any others
+  const missing = documents.filter((doc) => !doc.embedding);
+  if (missing.length > 0) {
+    const vectors = await embedTexts(missing.map((doc) => doc.pageContent));
+    missing.forEach((doc, idx) => (doc.embedding = vectors[idx]));
+  }
+
+  const selected = maximalMarginalRelevance(
+    documents.map((doc) => doc.score ?? 0),
+    documents.map((doc) => doc.embedding!),
+    topK,
+    settings.mmrLambda
+  );
+  return selected.map(({ index, score }) => ({
+    ...documents[index],
+    metadata: { ...documents[index].metadata, mmrScore: score },
+  }));
+}
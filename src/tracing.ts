@@ -0,0 +1,331 @@
+import path from "path";
+import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { LLMResult } from "@langchain/core/outputs";
+import type { Serialized } from "@langchain/core/load/serializable";
+import { incrementCounter, observeHistogram } from "./metrics";
+import { getChatModelName } from "./providers";
+import { redactErrorMessage } from "./redaction";
+
+/**
+ * Per-request traces: retrieval latency and per-chunk scores, every LLM call
+ * with its latency, token counts and estimated cost, and the stores queried.
+ * A finished trace is logged as one JSON line, recorded in the metrics and,
+ * with TRACE_PERSIST=true, saved to .traces/ so a bad answer can be
+ * investigated later. Traces never contain credentials, and error messages
+ * are scrubbed of anything that looks like an API key.
+ */
+export interface TraceLLMCall {
+  // What the call was for, e.g. "condense", "answer", "repair", "rerank"
+  purpose: string;
+  model: string;
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  // True when the provider reported no usage and tokens were estimated from text length
+  estimatedTokens: boolean;
+  // null when the model has no known price
+  costUsd: number | null;
+  error?: string;
+}
+
+export interface TraceRetrievedChunk {
+  storeId?: string;
+  chunkIndex?: number;
+  pageNumber?: number;
+  score?: number;
+  retrievalScore?: number;
+  rerankScore?: number;
+  mmrScore?: number;
+}
+
+export interface Trace {
+  id: string;
+  route: string;
+  workspaceId?: string;
+  startedAt: string;
+  durationMs?: number;
+  status: "running" | "ok" | "error";
+  storeIds: string[];
+  retrievalMode?: string;
+  profileId?: string;
+  question?: string;
+  // Standalone question used for retrieval
+  query?: string;
+  retrieval?: { latencyMs: number; chunks: TraceRetrievedChunk[] };
+  llmCalls: TraceLLMCall[];
+  usage: { promptTokens: number; completionTokens: number; costUsd: number };
+  conversationId?: string;
+  error?: string;
+}
+
+export type TraceSummary = Omit<Trace, "retrieval" | "llmCalls" | "question" | "query">;
+
+// USD per million tokens
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const TRACES_DIR = path.join(process.cwd(), ".traces");
+
+const TRACE_ID_PATTERN = /^[a-zA-Z0-9-]{1,64}$/;
+
+// List prices of common OpenAI models; override or extend with MODEL_PRICING
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+
+// Rough characters per token, used when the provider does not report usage
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Whether finished traces are saved to .traces/ (TRACE_PERSIST, default off)
+ */
+export function isTracePersistenceEnabled(): boolean {
+  return process.env.TRACE_PERSIST === "true";
+}
+
+/**
+ * Per-million-token prices: MODEL_PRICING (JSON, e.g.
+ * {"llama3.1": {"input": 0, "output": 0}}) over the built-in list. Model
+ * names with a provider prefix ("openai/gpt-4o-mini") match the bare name.
+ */
+function getModelPrice(model: string): ModelPrice | null {
+  let overrides: Record<string, ModelPrice> = {};
+  try {
+    overrides = process.env.MODEL_PRICING ? JSON.parse(process.env.MODEL_PRICING) : {};
+  } catch {
+    console.warn("⚠️ MODEL_PRICING is not valid JSON; using built-in prices");
+  }
+  const prices = { ...DEFAULT_MODEL_PRICES, ...overrides };
+  return prices[model] ?? prices[model.split("/").pop()!] ?? null;
+}
+
+function estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+function messageLength(message: BaseMessage): number {
+  return typeof message.content === "string" ? message.content.length : JSON.stringify(message.content).length;
+}
+
+/**
+ * Records each chat model call made with it into a trace. Pass it as
+ * `{ callbacks: traceCallbacks(trace, "answer") }` when invoking a model.
+ */
+class TraceCallbackHandler extends BaseCallbackHandler {
+  name = "trace";
+
+  private readonly runs = new Map<string, { started: number; model: string; promptChars: number }>();
+
+  constructor(
+    private readonly trace: Trace,
+    private readonly purpose: string
+  ) {
+    // Record usage before the call returns, so it is in the trace when the request finishes
+    super({ _awaitHandler: true });
+  }
+
+  handleChatModelStart(
+    _llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.runs.set(runId, {
+      started: Date.now(),
+      model: (metadata?.ls_model_name as string | undefined) || getChatModelName(),
+      promptChars: messages.flat().reduce((sum, message) => sum + messageLength(message), 0),
+    });
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    this.runs.delete(runId);
+
+    const generation = output.generations[0]?.[0] as
+      | { text: string; message?: { usage_metadata?: { input_tokens: number; output_tokens: number } } }
+      | undefined;
+    const usage = generation?.message?.usage_metadata;
+    const tokenUsage = output.llmOutput?.tokenUsage as
+      | { promptTokens?: number; completionTokens?: number }
+      | undefined;
+
+    const promptTokens =
+      usage?.input_tokens ?? tokenUsage?.promptTokens ?? Math.ceil(run.promptChars / CHARS_PER_TOKEN);
+    const completionTokens =
+      usage?.output_tokens ??
+      tokenUsage?.completionTokens ??
+      Math.ceil((generation?.text.length ?? 0) / CHARS_PER_TOKEN);
+
+    this.trace.llmCalls.push({
+      purpose: this.purpose,
+      model: run.model,
+      latencyMs: Date.now() - run.started,
+      promptTokens,
+      completionTokens,
+      estimatedTokens: !usage && tokenUsage?.promptTokens === undefined,
+      costUsd: estimateCost(run.model, promptTokens, completionTokens),
+    });
+  }
+
+  handleLLMError(err: unknown, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    this.runs.delete(runId);
+
+    this.trace.llmCalls.push({
+      purpose: this.purpose,
+      model: run.model,
+      latencyMs: Date.now() - run.started,
+      promptTokens: 0,
+      completionTokens: 0,
+      estimatedTokens: false,
+      costUsd: null,
+      error: redactErrorMessage(err),
+    });
+  }
+}
+
+/**
+ * Callbacks that record a model call into the trace (none without a trace)
+ */
+export function traceCallbacks(trace: Trace | undefined, purpose: string): BaseCallbackHandler[] | undefined {
+  return trace ? [new TraceCallbackHandler(trace, purpose)] : undefined;
+}
+
+export function startTrace(
+  route: string,
+  fields: Pick<Trace, "workspaceId" | "storeIds" | "retrievalMode" | "profileId" | "question">
+): Trace {
+  return {
+    id: uuidv4(),
+    route,
+    startedAt: new Date().toISOString(),
+    status: "running",
+    llmCalls: [],
+    usage: { promptTokens: 0, completionTokens: 0, costUsd: 0 },
+    ...fields,
+  };
+}
+
+/**
+ * Record the retrieved chunks with their scores
+ */
+export function recordRetrieval(
+  trace: Trace | undefined,
+  latencyMs: number,
+  documents: Array<{ metadata: Record<string, unknown>; score?: number }>
+): void {
+  if (!trace) return;
+  trace.retrieval = {
+    latencyMs,
+    chunks: documents.map((doc) => ({
+      storeId: doc.metadata.storeId as string | undefined,
+      chunkIndex: doc.metadata.chunkIndex as number | undefined,
+      pageNumber: doc.metadata.pageNumber as number | undefined,
+      score: doc.score,
+      retrievalScore: doc.metadata.retrievalScore as number | undefined,
+      rerankScore: doc.metadata.rerankScore as number | undefined,
+      mmrScore: doc.metadata.mmrScore as number | undefined,
+    })),
+  };
+}
+
+/**
+ * Trace fields without the question text and per-call details
+ */
+export function toTraceSummary({
+  retrieval: _retrieval,
+  llmCalls: _llmCalls,
+  question: _question,
+  query: _query,
+  ...summary
+}: Trace): TraceSummary {
+  return summary;
+}
+
+/**
+ * Complete a trace: total the usage, record metrics, log it as one JSON
+ * line (without the question text) and persist it if enabled
+ */
+export function finishTrace(trace: Trace, error?: unknown): Trace {
+  trace.durationMs = Date.now() - Date.parse(trace.startedAt);
+  trace.status = error ? "error" : "ok";
+  if (error) {
+    trace.error = redactErrorMessage(error);
+  }
+  trace.usage = {
+    promptTokens: trace.llmCalls.reduce((sum, call) => sum + call.promptTokens, 0),
+    completionTokens: trace.llmCalls.reduce((sum, call) => sum + call.completionTokens, 0),
+    costUsd: trace.llmCalls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+  };
+
+  incrementCounter("rag_requests_total", { route: trace.route, status: trace.status });
+  observeHistogram("rag_request_duration_seconds", trace.durationMs / 1000, { route: trace.route });
+  if (trace.retrieval) {
+    observeHistogram("rag_retrieval_duration_seconds", trace.retrieval.latencyMs / 1000);
+  }
+  for (const call of trace.llmCalls) {
+    observeHistogram("rag_llm_duration_seconds", call.latencyMs / 1000, { purpose: call.purpose });
+    incrementCounter("rag_llm_tokens_total", { model: call.model, type: "prompt" }, call.promptTokens);
+    incrementCounter("rag_llm_tokens_total", { model: call.model, type: "completion" }, call.completionTokens);
+    if (call.costUsd !== null) {
+      incrementCounter("rag_llm_cost_usd_total", { model: call.model }, call.costUsd);
+    }
+  }
+
+  console.log(
+    JSON.stringify({
+      type: "trace",
+      ...toTraceSummary(trace),
+      retrievalMs: trace.retrieval?.latencyMs,
+      chunks: trace.retrieval?.chunks.length,
+      llmMs: trace.llmCalls.reduce((sum, call) => sum + call.latencyMs, 0),
+    })
+  );
+
+  if (isTracePersistenceEnabled()) {
+    try {
+      fs.mkdirSync(TRACES_DIR, { recursive: true });
+      fs.writeFileSync(path.join(TRACES_DIR, `${trace.id}.json`), JSON.stringify(trace, null, 2));
+    } catch (err) {
+      console.error("Failed to save trace:", err);
+    }
+  }
+  return trace;
+}
+
+export function getTrace(id: string): Trace | null {
+  const tracePath = path.join(TRACES_DIR, `${id}.json`);
+  if (!TRACE_ID_PATTERN.test(id) || !fs.existsSync(tracePath)) return null;
+  return JSON.parse(fs.readFileSync(tracePath, "utf-8")) as Trace;
+}
+
+/**
+ * Saved traces, newest first, optionally only those of one workspace
+ */
+export function listTraces({ workspaceId, limit = 50 }: { workspaceId?: string; limit?: number } = {}): TraceSummary[] {
+  if (!fs.existsSync(TRACES_DIR)) return [];
+  return fs
+    .readdirSync(TRACES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => getTrace(path.basename(file, ".json")))
+    .filter((trace): trace is Trace => trace !== null && (!workspaceId || trace.workspaceId === workspaceId))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, limit)
+    .map(toTraceSummary);
+}
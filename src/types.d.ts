@@ -1 +1,24 @@
 declare module 'pdf-parse';
+
+// pdf-parse's implementation (see loaders.ts)
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  // The part of the pdf.js page proxy that pdf-parse passes to pagerender
+  export interface PdfPage {
+    // 0-based
+    pageIndex: number;
+    getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+      items: Array<{ str: string; transform: number[] }>;
+    }>;
+  }
+
+  export interface PdfData {
+    numpages: number;
+    text: string;
+    info: { Title?: string } | null;
+  }
+
+  export default function pdf(
+    dataBuffer: Buffer,
+    options?: { pagerender?: (pageData: PdfPage) => Promise<string>; max?: number }
+  ): Promise<PdfData>;
+}
@@ -1,14 +1,60 @@
-import { OpenAIEmbeddings } from "@langchain/openai";
 import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { getEmbeddingModelId } from "./providers";
+import { embedQueryText, embedTexts, getEmbeddingBatchSize } from "./embeddingPipeline";
+import { redactError, redactErrorMessage } from "./redaction";
 import path from "path";
 import fs from "fs";
 import { writeFile, mkdir } from "fs/promises";
-
-// Simple in-memory vector store
-interface VectorStoreData {
-  chunks: string[];
-  embeddings: number[][];
-  metadata: Array<Record<string, unknown>>;
+import { createHash } from "crypto";
+import {
+  hasLegacyStore,
+  migrateLegacyStore,
+  appendEmbeddingCheckpoint,
+  estimateLoadedSize,
+  packEmbeddings,
+  getDefaultQuantization,
+  readChunks,
+  readEmbeddingCheckpoint,
+  readEmbeddings,
+  readStoreManifest,
+  removeEmbeddingCheckpoint,
+  writeStoreFiles,
+  type EmbeddingMatrix,
+  type EmbeddingQuantization,
+  type StoreManifest,
+  type StoredChunk,
+} from "./vectorStoreFormat";
+import {
+  buildIvfIndex,
+  cosineSimilarity,
+  getIndexMinChunks,
+  readIvfIndex,
+  removeIvfIndex,
+  searchIvfIndex,
+  writeIvfIndex,
+  type IvfIndex,
+} from "./annIndex";
+import {
+  buildLexicalIndex,
+  getDefaultRetrievalMode,
+  readLexicalIndex,
+  reciprocalRankFusion,
+  searchLexicalIndex,
+  writeLexicalIndex,
+  type LexicalIndex,
+  type RetrievalMode,
+} from "./lexicalIndex";
+import { loadDocument, type DocumentFormat } from "./loaders";
+import { LruCache, type CacheStats } from "./lruCache";
+
+// A loaded vector store; embeddings and chunks are read from disk on first use
+export interface VectorStoreData {
+  manifest: StoreManifest;
+  estimatedBytes: number;
+  getEmbeddings(): Promise<EmbeddingMatrix>;
+  getChunks(): Promise<StoredChunk[]>;
+  getIndex(): Promise<IvfIndex | null>;
+  getLexicalIndex(): Promise<LexicalIndex>;
 }
 
 const VECTOR_STORE_DIR = path.join(process.cwd(), ".vector_stores");
@@ -18,168 +64,375 @@ if (!fs.existsSync(VECTOR_STORE_DIR)) {
   fs.mkdirSync(VECTOR_STORE_DIR, { recursive: true });
 }
 
-// In-memory cache of loaded vector stores
-const vectorStoreCache = new Map<string, VectorStoreData>();
+/**
+ * Ingestion stage reported by createVectorStore
+ */
+export type IngestionProgress =
+  | { stage: "parsing" }
+  | { stage: "embedding"; embedded: number; total: number }
+  | { stage: "indexing" };
+
+/**
+ * Chunking and storage options for building a store; unset fields use the defaults
+ */
+export interface IngestionSettings {
+  chunkSize?: number;
+  chunkOverlap?: number;
+  quantization?: EmbeddingQuantization;
+}
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+
+// Uploaded source documents; only files in here are deleted along with a store
+export const UPLOAD_DIR = path.join(process.cwd(), "uploads");
+
+// In-memory cache of loaded vector stores, bounded by estimated memory use
+// (VECTOR_STORE_CACHE_MB, default 512); least recently queried stores are evicted
+const vectorStoreCache = new LruCache<string, VectorStoreData>(
+  (Number(process.env.VECTOR_STORE_CACHE_MB) || 512) * 1024 * 1024,
+  (store) => store.estimatedBytes
+);
+
+let legacyStoresMigrated = false;
+
+/**
+ * SHA-256 of a document's bytes, used to detect re-uploads of the same file
+ */
+export function computeContentHash(contents: Buffer): string {
+  return createHash("sha256").update(contents).digest("hex");
+}
+
+/**
+ * Settings that determine a store's chunks and vectors; a store can only be
+ * reused for an identical upload if these match
+ */
+function getIngestionSettings({
+  chunkSize = CHUNK_SIZE,
+  chunkOverlap = CHUNK_OVERLAP,
+  quantization = getDefaultQuantization(),
+}: IngestionSettings = {}) {
+  return {
+    embeddingModel: getEmbeddingModelId(),
+    chunkSize,
+    chunkOverlap,
+    quantization,
+  };
+}
 
 /**
- * Cosine similarity between two vectors
+ * Find a complete store built from the same file bytes with the current
+ * ingestion settings, optionally only among stores owned by `workspaceId`
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
+export async function findStoreByContentHash(
+  contentHash: string,
+  { workspaceId }: { workspaceId?: string } = {}
+): Promise<{ storeId: string; metadata: Record<string, unknown> } | null> {
+  const settings = getIngestionSettings();
+  for (const storeId of listVectorStores()) {
+    const metadata = loadVectorStoreMetadata(storeId);
+    if (metadata?.contentHash !== contentHash) continue;
+    if (workspaceId && metadata?.workspaceId !== workspaceId) continue;
+
+    const sameSettings = (Object.keys(settings) as Array<keyof typeof settings>).every(
+      (key) => metadata[key] === settings[key]
+    );
+    if (sameSettings && (await readStoreManifest(path.join(VECTOR_STORE_DIR, storeId)))) {
+      return { storeId, metadata };
+    }
   }
+  return null;
+}
 
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB) + 1e-10);
+/**
+ * Locate each chunk in the full text and map it to the sections it spans.
+ * Chunks come back from the splitter in order, so searching resumes from the
+ * previous chunk's start to handle overlap and repeated passages.
+ */
+function locateChunkSections(
+  fullText: string,
+  sectionOffsets: number[],
+  chunks: string[]
+): Array<{ startSection: number; endSection: number }> {
+  const sectionAt = (offset: number) => {
+    let section = 0;
+    while (section + 1 < sectionOffsets.length && sectionOffsets[section + 1] <= offset) {
+      section++;
+    }
+    return section;
+  };
+
+  let searchFrom = 0;
+  let previous = { startSection: 0, endSection: 0 };
+  return chunks.map((chunk) => {
+    const start = fullText.indexOf(chunk, searchFrom);
+    if (start === -1) {
+      // Splitter normalised the text; fall back to the previous location
+      return previous;
+    }
+    searchFrom = start + 1;
+    previous = {
+      startSection: sectionAt(start),
+      endSection: sectionAt(start + Math.max(chunk.length - 1, 0)),
+    };
+    return previous;
+  });
 }
 
 /**
- * Create embeddings for PDF documents using LangChain's PDFLoader
+ * Create embeddings for a document (PDF, DOCX, HTML, Markdown or text).
+ * Chunks are embedded in batches and checkpointed, so calling this again for
+ * the same file and storeId after an interruption resumes where it stopped.
  */
 export async function createVectorStore(
   filePath: string,
-  storeId: string
-): Promise<{ pageCount: number; chunkCount: number }> {
+  storeId: string,
+  {
+    onProgress,
+    signal,
+    ...settings
+  }: IngestionSettings & {
+    onProgress?: (progress: IngestionProgress) => void | Promise<void>;
+    signal?: AbortSignal;
+  } = {}
+): Promise<{ pageCount: number; chunkCount: number; format: DocumentFormat }> {
   try {
-    // Use server-side pdf-parse to extract text from the PDF file
-    // (avoids relying on LangChain's document loaders which may not be present)
-    const fileBuffer = fs.readFileSync(filePath);
-    let pdfData: any;
-    try {
-      // import the internal implementation to avoid running the package's
-      // top-level demo/test code which may attempt to read './test/data/..'
-      // (some bundlers or runtimes leave `module.parent` undefined causing
-      // the demo block in `pdf-parse/index.js` to execute).
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const pdf = require("pdf-parse/lib/pdf-parse.js");
-      // pdf-parse exports a function that accepts a Buffer
-      pdfData = await pdf(fileBuffer);
-    } catch (e) {
-      console.error("pdf-parse error:", e);
-      const message = e instanceof Error ? e.message : String(e);
-      throw new Error(`Failed to parse PDF file: ${message}`);
+    await onProgress?.({ stage: "parsing" });
+    const document = await loadDocument(filePath);
+
+    // Join sections the way pdf-parse joins pages, remembering where each starts
+    const sectionOffsets: number[] = [];
+    let fullText = "";
+    for (const section of document.sections) {
+      fullText += "\n\n";
+      sectionOffsets.push(fullText.length);
+      fullText += section.text;
     }
 
-    if (!pdfData || !pdfData.text || pdfData.text.trim().length === 0) {
-      throw new Error("PDF contains no extractable text");
+    if (fullText.trim().length === 0) {
+      throw new Error("Document contains no extractable text");
     }
 
+    const contentHash = computeContentHash(fs.readFileSync(filePath));
+    const ingestionSettings = getIngestionSettings(settings);
+
     // Create a single document and let the splitter create chunks
     const docs = [
       {
-        pageContent: pdfData.text,
+        pageContent: fullText,
         metadata: { source: filePath },
       },
     ];
 
-    const pageCount = pdfData.numpages || 1;
+    const pageCount = document.pageCount;
 
     // Split documents into chunks using RecursiveCharacterTextSplitter
     const splitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 200,
+      chunkSize: ingestionSettings.chunkSize,
+      chunkOverlap: ingestionSettings.chunkOverlap,
       separators: ["\n\n", "\n", " ", ""],
     });
 
     const chunks = await splitter.splitDocuments(docs);
 
     if (chunks.length === 0) {
-      throw new Error("Failed to split PDF into chunks");
+      throw new Error("Failed to split document into chunks");
     }
 
     const chunkCount = chunks.length;
 
-    // Create embeddings
-    const embeddings = new OpenAIEmbeddings({
-      apiKey: process.env.OPENAI_API_KEY,
-      model: process.env.OPENAI_EMBEDDINGS_BASE_URL ? "openai/text-embedding-3-small" : "text-embedding-3-small",
-      configuration: {
-        baseURL: process.env.OPENAI_EMBEDDINGS_BASE_URL || "https://api.openai.com/v1",
-      },
-    });
+    const storePath = path.join(VECTOR_STORE_DIR, storeId);
+    await mkdir(storePath, { recursive: true });
 
-    console.log(`Creating embeddings for ${chunks.length} chunks...`);
-    const embeddingVectors = await embeddings.embedDocuments(
+    // Create embeddings, resuming from a checkpoint left by an interrupted run
+    const texts = chunks.map((chunk) => chunk.pageContent);
+    const checkpointKey = createHash("sha256")
+      .update(getEmbeddingModelId())
+      .update("\0")
+      .update(texts.join("\0"))
+      .digest("hex");
+    const checkpoint = await readEmbeddingCheckpoint(storePath, checkpointKey);
+    const embeddingVectors: number[][] = checkpoint?.vectors ?? [];
+
+    if (embeddingVectors.length > 0) {
+      console.log(`Resuming embeddings at chunk ${embeddingVectors.length}/${chunkCount}...`);
+    } else {
+      console.log(`Creating embeddings for ${chunks.length} chunks...`);
+    }
+    await onProgress?.({ stage: "embedding", embedded: embeddingVectors.length, total: chunkCount });
+
+    while (embeddingVectors.length < chunkCount) {
+      signal?.throwIfAborted();
+      const batch = await embedTexts(
+        texts.slice(embeddingVectors.length, embeddingVectors.length + getEmbeddingBatchSize()),
+        { signal }
+      );
+      embeddingVectors.push(...batch);
+      await appendEmbeddingCheckpoint(storePath, checkpointKey, batch, embeddingVectors.length);
+      await onProgress?.({ stage: "embedding", embedded: embeddingVectors.length, total: chunkCount });
+    }
+    signal?.throwIfAborted();
+    await onProgress?.({ stage: "indexing" });
+
+    // Create metadata array with enhanced information: pages for paginated
+    // formats, the heading path of the section a chunk starts in otherwise
+    const chunkSections = locateChunkSections(
+      fullText,
+      sectionOffsets,
       chunks.map((chunk) => chunk.pageContent)
     );
-
-    // Create metadata array with enhanced information
-    const metadata = chunks.map((chunk, idx) => ({
-      source: chunk.metadata.source as string,
-      pageNumber: chunk.metadata.loc?.pageNumber || 0,
-      chunkIndex: idx,
-      fileName: path.basename(chunk.metadata.source as string),
+    const metadata = chunks.map((chunk, idx) => {
+      const start = document.sections[chunkSections[idx].startSection];
+      const end = document.sections[chunkSections[idx].endSection];
+      return {
+        source: chunk.metadata.source as string,
+        pageNumber: start.pageNumber,
+        pageEnd: start.pageNumber ? end.pageNumber : undefined,
+        headings: start.headings,
+        chunkIndex: idx,
+        fileName: path.basename(chunk.metadata.source as string),
+      };
+    });
+    // Save to disk
+    const { embeddings: packedEmbeddings, dimensions } = packEmbeddings(embeddingVectors);
+    const storedChunks = chunks.map((chunk, idx) => ({
+      text: chunk.pageContent,
+      metadata: metadata[idx],
     }));
+    const manifest = await writeStoreFiles(
+      storePath,
+      { embeddings: packedEmbeddings, dimensions, chunks: storedChunks },
+      ingestionSettings.quantization
+    );
 
-    // Store in memory and disk
-    const storeData: VectorStoreData = {
-      chunks: chunks.map((chunk) => chunk.pageContent),
-      embeddings: embeddingVectors,
-      metadata,
-    };
-
-    vectorStoreCache.set(storeId, storeData);
-
-    // Save to disk
-    const storePath = path.join(VECTOR_STORE_DIR, storeId);
-    await mkdir(storePath, { recursive: true });
+    // Large stores get an approximate nearest-neighbour index
+    if (chunkCount >= getIndexMinChunks()) {
+      console.log(`Building vector index for ${chunkCount} chunks...`);
+      // Cluster what searches will score: the int8 rows for quantized stores
+      const storedEmbeddings = manifest.quantization === "int8"
+        ? await readEmbeddings(storePath, manifest)
+        : packedEmbeddings;
+      await writeIvfIndex(storePath, buildIvfIndex(storedEmbeddings, dimensions, chunkCount));
+    } else {
+      await removeIvfIndex(storePath);
+    }
 
-    await writeFile(
-      path.join(storePath, "store.json"),
-      JSON.stringify(storeData, null, 2)
+    await writeLexicalIndex(
+      storePath,
+      buildLexicalIndex(chunks.map((chunk) => chunk.pageContent))
     );
+    await removeEmbeddingCheckpoint(storePath);
+
+    // Reload through the normal path so int8 stores see their quantized vectors
+    vectorStoreCache.delete(storeId);
 
+    // Re-indexing keeps user-set fields such as displayName, tags and profileId
+    const previous = loadVectorStoreMetadata(storeId);
+    const now = new Date().toISOString();
     await writeFile(
       path.join(storePath, "metadata.json"),
       JSON.stringify(
         {
+          ...previous,
           fileName: path.basename(filePath),
-          createdAt: new Date().toISOString(),
+          createdAt: (previous?.createdAt as string | undefined) ?? now,
+          indexedAt: now,
           chunkCount: chunks.length,
           pageCount,
+          format: document.format,
+          title: document.title,
+          sectionCount: document.sections.length,
           textLength: chunks.reduce((sum, chunk) => sum + chunk.pageContent.length, 0),
+          contentHash,
+          sourcePath: path.relative(process.cwd(), filePath),
+          ...ingestionSettings,
         },
         null,
         2
       )
     );
 
-    console.log(`Vector store created: ${chunkCount} chunks from ${pageCount} pages`);
-    return { pageCount, chunkCount };
+    console.log(
+      `Vector store created: ${chunkCount} chunks from ${document.sections.length} ${document.format} sections`
+    );
+    return { pageCount, chunkCount, format: document.format };
   } catch (err) {
-    console.error("Error creating vector store:", err);
+    console.error("Error creating vector store:", redactError(err));
     throw err;
   }
 }
 
+/**
+ * Convert every legacy store.json directory to the binary format (once per process)
+ */
+export async function migrateVectorStores(): Promise<string[]> {
+  const migrated: string[] = [];
+  for (const storeId of listVectorStores()) {
+    const storePath = path.join(VECTOR_STORE_DIR, storeId);
+    if (!hasLegacyStore(storePath)) continue;
+    try {
+      if (await migrateLegacyStore(storePath)) {
+        vectorStoreCache.delete(storeId);
+        migrated.push(storeId);
+        console.log(`🔄 Migrated vector store ${storeId} to binary format`);
+      }
+    } catch (err) {
+      console.error(`Failed to migrate vector store ${storeId}:`, err);
+    }
+  }
+  legacyStoresMigrated = true;
+  return migrated;
+}
+
 /**
  * Load a vector store from disk or cache
  */
 export async function loadVectorStore(
   storeId: string
 ): Promise<VectorStoreData | null> {
+  if (!isValidStoreId(storeId)) return null;
+
   // Check memory cache first
-  if (vectorStoreCache.has(storeId)) {
-    return vectorStoreCache.get(storeId) || null;
+  const cached = vectorStoreCache.get(storeId);
+  if (cached) {
+    return cached;
+  }
+
+  if (!legacyStoresMigrated) {
+    await migrateVectorStores();
   }
 
   // Try to load from disk
   const storePath = path.join(VECTOR_STORE_DIR, storeId);
   if (fs.existsSync(storePath)) {
     try {
-      const storeDataStr = await new Promise<string>((resolve, reject) => {
-        fs.readFile(path.join(storePath, "store.json"), "utf-8", (err, data) => {
-          if (err) reject(err);
-          else resolve(data);
-        });
-      });
-
-      const storeData = JSON.parse(storeDataStr) as VectorStoreData;
+      const manifest = await readStoreManifest(storePath);
+      if (!manifest) {
+        return null;
+      }
+
+      // Defer reading the large files until the store is actually queried
+      let embeddingsPromise: Promise<EmbeddingMatrix> | null = null;
+      let chunksPromise: Promise<StoredChunk[]> | null = null;
+      let indexPromise: Promise<IvfIndex | null> | null = null;
+      let lexicalPromise: Promise<LexicalIndex> | null = null;
+      const getChunks = () => (chunksPromise ??= readChunks(storePath));
+      const storeData: VectorStoreData = {
+        manifest,
+        estimatedBytes: estimateLoadedSize(storePath, manifest),
+        getEmbeddings: () => (embeddingsPromise ??= readEmbeddings(storePath, manifest)),
+        getChunks,
+        getIndex: () => (indexPromise ??= readIvfIndex(storePath, manifest.count)),
+        // Stores created before lexical indexing get one built on first use
+        getLexicalIndex: () =>
+          (lexicalPromise ??= (async () => {
+            const existing = await readLexicalIndex(storePath, manifest.count);
+            if (existing) return existing;
+            const built = buildLexicalIndex((await getChunks()).map((chunk) => chunk.text));
+            await writeLexicalIndex(storePath, built);
+            return built;
+          })()),
+      };
 
       // Cache it
       vectorStoreCache.set(storeId, storeData);
@@ -194,17 +447,81 @@ export async function loadVectorStore(
 }
 
 /**
- * Retrieve similar documents from a vector store
+ * Hit/miss/eviction counts and memory use of the loaded-store cache
+ */
+export function getVectorStoreCacheStats(): CacheStats {
+  return vectorStoreCache.stats();
+}
+
+/**
+ * Rank a store's chunks by embedding similarity to the query
+ */
+async function searchByEmbedding(
+  storeId: string,
+  store: VectorStoreData,
+  query: string,
+  topK: number,
+  { nprobe, exact = false }: { nprobe?: number; exact?: boolean }
+): Promise<Array<{ idx: number; score: number }>> {
+  // Get query embedding
+  let queryEmbedding;
+  try {
+    queryEmbedding = await embedQueryText(query);
+  } catch (embedError) {
+    console.error("Embedding error:", redactError(embedError));
+    throw new Error(`Failed to get query embedding: ${redactErrorMessage(embedError)}`);
+  }
+
+  const { dimensions, count } = store.manifest;
+  if (count > 0 && dimensions !== queryEmbedding.length) {
+    throw new Error(
+      `Vector store ${storeId} was embedded with a different model (${dimensions} dimensions, query has ${queryEmbedding.length}); re-index it with the current embedding provider`
+    );
+  }
+
+  const embeddingMatrix = await store.getEmbeddings();
+  const index = exact || count < getIndexMinChunks() ? null : await store.getIndex();
+
+  if (index) {
+    return searchIvfIndex(index, embeddingMatrix, queryEmbedding, topK, nprobe);
+  }
+
+  // Exact search: calculate similarity scores against every chunk
+  const scores = Array.from({ length: count }, (_, idx) => ({
+    idx,
+    score: cosineSimilarity(
+      queryEmbedding,
+      embeddingMatrix.subarray(idx * dimensions, (idx + 1) * dimensions)
+    ),
+  }));
+
+  // Sort by score and get top K
+  scores.sort((a: { score: number }, b: { score: number }) => b.score - a.score);
+  return scores.slice(0, topK);
+}
+
+/**
+ * Retrieve similar documents from a vector store.
+ * `mode` selects embedding search, BM25 keyword search, or both fused with
+ * reciprocal rank fusion. `includeEmbeddings` returns each chunk's stored
+ * vector too (used for diversity re-ranking).
  */
 export async function retrieveFromVectorStore(
   storeId: string,
   query: string,
-  topK: number = 8 
+  topK: number = 8,
+  {
+    nprobe,
+    exact = false,
+    mode = getDefaultRetrievalMode(),
+    includeEmbeddings = false,
+  }: { nprobe?: number; exact?: boolean; mode?: RetrievalMode; includeEmbeddings?: boolean } = {}
 ): Promise<
   Array<{
     pageContent: string;
     metadata: Record<string, unknown>;
     score?: number;
+    embedding?: EmbeddingMatrix;
   }>
 > {
   const store = await loadVectorStore(storeId);
@@ -212,43 +529,54 @@ export async function retrieveFromVectorStore(
     throw new Error(`Vector store ${storeId} not found`);
   }
 
-  // Get query embedding
-  const embeddings = new OpenAIEmbeddings({
-    apiKey: process.env.OPENAI_API_KEY,
-    model: process.env.OPENAI_EMBEDDINGS_BASE_URL ? "openai/text-embedding-3-small" : "text-embedding-3-small",
-    configuration: {
-      baseURL: process.env.OPENAI_EMBEDDINGS_BASE_URL || process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
-    },
-  });
-
-  let queryEmbedding;
-  try {
-    queryEmbedding = await embeddings.embedQuery(query);
-  } catch (embedError) {
-    console.error("Embedding error:", embedError);
-    const errorMessage = embedError instanceof Error ? embedError.message : String(embedError);
-    throw new Error(`Failed to get query embedding: ${errorMessage}`);
+  let topResults: Array<{ idx: number; score: number }>;
+  if (mode === "lexical") {
+    topResults = searchLexicalIndex(await store.getLexicalIndex(), query, topK);
+  } else if (mode === "hybrid") {
+    // Fuse deeper candidate lists so items ranked well by only one side survive
+    const candidates = Math.max(topK * 4, 20);
+    const [vectorResults, lexicalResults] = await Promise.all([
+      searchByEmbedding(storeId, store, query, candidates, { nprobe, exact }),
+      store.getLexicalIndex().then((index) => searchLexicalIndex(index, query, candidates)),
+    ]);
+    topResults = reciprocalRankFusion([vectorResults, lexicalResults], topK);
+  } else {
+    topResults = await searchByEmbedding(storeId, store, query, topK, { nprobe, exact });
   }
 
-  // Calculate similarity scores
-  const scores = store.embeddings.map((embedding: number[], idx: number) => ({
-    idx,
-    score: cosineSimilarity(queryEmbedding, embedding),
-  }));
-
-  // Sort by score and get top K
-  scores.sort((a: { score: number }, b: { score: number }) => b.score - a.score);
-  const topResults = scores.slice(0, topK);
-
+  const chunks = await store.getChunks();
+  const embeddings = includeEmbeddings ? await store.getEmbeddings() : null;
+  const { dimensions } = store.manifest;
   return topResults.map(
     (result: { idx: number; score: number }) => ({
-      pageContent: store.chunks[result.idx],
-      metadata: store.metadata[result.idx],
+      pageContent: chunks[result.idx].text,
+      metadata: chunks[result.idx].metadata,
       score: result.score,
+      ...(embeddings && {
+        embedding: embeddings.subarray(result.idx * dimensions, (result.idx + 1) * dimensions),
+      }),
     })
   );
 }
 
+/**
+ * Build (or rebuild) the approximate nearest-neighbour index for an existing store
+ */
+export async function buildVectorIndex(storeId: string, nlist?: number): Promise<boolean> {
+  const store = await loadVectorStore(storeId);
+  if (!store) {
+    throw new Error(`Vector store ${storeId} not found`);
+  }
+
+  const { dimensions, count } = store.manifest;
+  if (count === 0) return false;
+
+  const storePath = path.join(VECTOR_STORE_DIR, storeId);
+  await writeIvfIndex(storePath, buildIvfIndex(await store.getEmbeddings(), dimensions, count, nlist));
+  vectorStoreCache.delete(storeId);
+  return true;
+}
+
 /**
  * List all available vector stores
  */
@@ -285,9 +613,146 @@ export function saveVectorStoreMetadata(
 }
 
 /**
- * Delete a vector store
+ * Load the metadata saved for a vector store, or null if it has none
+ */
+export function loadVectorStoreMetadata(
+  storeId: string
+): Record<string, unknown> | null {
+  if (!isValidStoreId(storeId)) return null;
+
+  const metadataPath = path.join(VECTOR_STORE_DIR, storeId, "metadata.json");
+  if (!fs.existsSync(metadataPath)) {
+    return null;
+  }
+
+  return JSON.parse(fs.readFileSync(metadataPath, "utf-8"));
+}
+
+/**
+ * Drop the embeddings checkpointed by an interrupted createVectorStore
+ */
+export async function discardEmbeddingCheckpoint(storeId: string): Promise<void> {
+  if (!isValidStoreId(storeId)) return;
+  await removeEmbeddingCheckpoint(path.join(VECTOR_STORE_DIR, storeId));
+}
+
+/**
+ * Merge changes into a store's metadata.json
+ */
+export function updateVectorStoreMetadata(
+  storeId: string,
+  changes: Record<string, unknown>
+): Record<string, unknown> {
+  const metadata = { ...loadVectorStoreMetadata(storeId), ...changes };
+  saveVectorStoreMetadata(storeId, metadata);
+  return metadata;
+}
+
+/**
+ * A store together with its metadata.json, for listings
+ */
+export interface VectorStoreSummary {
+  storeId: string;
+  chunkCount: number;
+  dimensions: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * List complete stores with their metadata, newest first
+ */
+export async function listVectorStoreSummaries(): Promise<VectorStoreSummary[]> {
+  if (!legacyStoresMigrated) {
+    await migrateVectorStores();
+  }
+
+  const summaries: VectorStoreSummary[] = [];
+  for (const storeId of listVectorStores()) {
+    const summary = await getVectorStoreSummary(storeId);
+    if (summary) summaries.push(summary);
+  }
+
+  const createdAt = (summary: VectorStoreSummary) => String(summary.metadata.createdAt ?? "");
+  return summaries.sort((a, b) => createdAt(b).localeCompare(createdAt(a)));
+}
+
+/**
+ * A single store's summary, or null if it does not exist or is still being built
  */
-export function deleteVectorStore(storeId: string): boolean {
+export async function getVectorStoreSummary(storeId: string): Promise<VectorStoreSummary | null> {
+  const storePath = path.join(VECTOR_STORE_DIR, storeId);
+  if (!isValidStoreId(storeId) || !fs.existsSync(storePath)) return null;
+
+  try {
+    const manifest = await readStoreManifest(storePath);
+    if (!manifest) return null;
+    return {
+      storeId,
+      chunkCount: manifest.count,
+      dimensions: manifest.dimensions,
+      metadata: loadVectorStoreMetadata(storeId) || {},
+    };
+  } catch (err) {
+    console.error(`Failed to read vector store ${storeId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * A page of a store's chunks with their metadata
+ */
+export async function getVectorStoreChunks(
+  storeId: string,
+  offset: number = 0,
+  limit: number = 50
+): Promise<{ total: number; chunks: Array<StoredChunk & { index: number }> } | null> {
+  const store = await loadVectorStore(storeId);
+  if (!store) return null;
+
+  const chunks = await store.getChunks();
+  return {
+    total: chunks.length,
+    chunks: chunks.slice(offset, offset + limit).map((chunk, idx) => ({ index: offset + idx, ...chunk })),
+  };
+}
+
+/**
+ * Path of the document a store was built from, if it still exists
+ */
+export function getVectorStoreSourcePath(storeId: string): string | null {
+  const metadata = loadVectorStoreMetadata(storeId);
+  if (!metadata) return null;
+
+  // Stores created before sourcePath was recorded were always uploads
+  const candidates = [
+    typeof metadata.sourcePath === "string" ? path.resolve(process.cwd(), metadata.sourcePath) : null,
+    typeof metadata.fileName === "string" ? path.join(UPLOAD_DIR, path.basename(metadata.fileName)) : null,
+  ];
+  return candidates.find((candidate) => candidate && fs.existsSync(candidate)) || null;
+}
+
+// Store IDs are directory names; reject anything that could escape VECTOR_STORE_DIR
+export function isValidStoreId(storeId: string): boolean {
+  return /^[a-zA-Z0-9_.-]{1,128}$/.test(storeId) && storeId !== "." && storeId !== "..";
+}
+
+/**
+ * Delete a vector store. With `removeSource`, an uploaded source document is
+ * deleted too (files outside the uploads directory are never touched).
+ */
+export function deleteVectorStore(
+  storeId: string,
+  { removeSource = false }: { removeSource?: boolean } = {}
+): boolean {
+  if (!isValidStoreId(storeId)) return false;
+
+  if (removeSource) {
+    const sourcePath = getVectorStoreSourcePath(storeId);
+    if (sourcePath && path.dirname(sourcePath) === UPLOAD_DIR) {
+      fs.rmSync(sourcePath, { force: true });
+    }
+  }
+
   // Remove from cache
   vectorStoreCache.delete(storeId);
 
@@ -0,0 +1,137 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { cosineSimilarity } from "./annIndex";
+import {
+  appendEmbeddingCheckpoint,
+  migrateLegacyStore,
+  packEmbeddings,
+  readChunks,
+  readEmbeddingCheckpoint,
+  readEmbeddings,
+  readStoreManifest,
+  writeStoreFiles,
+} from "./vectorStoreFormat";
+
+const vectors = [
+  [0.1, -0.2, 0.3, 0.4],
+  [-0.5, 0.25, 0, 1],
+  [0.9, 0.8, -0.7, 0.01],
+];
+const chunks = [
+  { text: "First chunk", metadata: { pageNumber: 1 } },
+  { text: "Second chunk with \"quotes\"\nand a newline", metadata: { pageNumber: 2, headings: ["A", "B"] } },
+  { text: "Third chunk", metadata: {} },
+];
+
+let storePath: string;
+
+beforeEach(() => {
+  storePath = fs.mkdtempSync(path.join(os.tmpdir(), "rag-store-"));
+});
+
+afterEach(() => {
+  fs.rmSync(storePath, { recursive: true, force: true });
+});
+
+describe("packEmbeddings", () => {
+  it("flattens vectors row by row", () => {
+    const { embeddings, dimensions } = packEmbeddings(vectors);
+    expect(dimensions).toBe(4);
+    expect(Array.from(embeddings.subarray(4, 8))).toEqual(Array.from(new Float32Array(vectors[1])));
+  });
+
+  it("rejects vectors of different lengths", () => {
+    expect(() => packEmbeddings([[1, 2], [1, 2, 3]])).toThrow("Embedding 1 has 3 dimensions, expected 2");
+  });
+});
+
+describe("writeStoreFiles", () => {
+  it("round-trips float32 embeddings and chunks exactly", async () => {
+    const { embeddings, dimensions } = packEmbeddings(vectors);
+    const written = await writeStoreFiles(storePath, { embeddings, dimensions, chunks }, "float32");
+
+    const manifest = await readStoreManifest(storePath);
+    expect(manifest).toEqual(written);
+    expect(manifest).toMatchObject({ dimensions: 4, count: 3, quantization: "float32" });
+    expect(await readEmbeddings(storePath, written)).toEqual(embeddings);
+    expect(await readChunks(storePath)).toEqual(chunks);
+    expect(fs.readdirSync(storePath).some((name) => name.endsWith(".tmp"))).toBe(false);
+  });
+
+  it("keeps int8 embeddings quantized with their directions preserved", async () => {
+    const { embeddings, dimensions } = packEmbeddings(vectors);
+    const manifest = await writeStoreFiles(storePath, { embeddings, dimensions, chunks }, "int8");
+
+    const stored = await readEmbeddings(storePath, manifest);
+    expect(stored).toBeInstanceOf(Int8Array);
+    expect(stored).toHaveLength(embeddings.length);
+    vectors.forEach((vector, row) => {
+      const quantized = stored.subarray(row * dimensions, (row + 1) * dimensions);
+      // The largest component of each row uses the full int8 range
+      expect(Math.max(...Array.from(quantized, Math.abs))).toBe(127);
+      expect(cosineSimilarity(vector, quantized)).toBeGreaterThan(0.999);
+    });
+  });
+});
+
+describe("readStoreManifest", () => {
+  it("returns null for a directory without a store", async () => {
+    expect(await readStoreManifest(storePath)).toBeNull();
+  });
+
+  it("rejects unknown format versions", async () => {
+    fs.writeFileSync(
+      path.join(storePath, "manifest.json"),
+      JSON.stringify({ formatVersion: 99, dimensions: 4, count: 0, quantization: "float32" })
+    );
+    await expect(readStoreManifest(storePath)).rejects.toThrow("Unsupported vector store format version 99");
+  });
+});
+
+describe("migrateLegacyStore", () => {
+  it("converts store.json to the current format", async () => {
+    fs.writeFileSync(
+      path.join(storePath, "store.json"),
+      JSON.stringify({
+        chunks: chunks.map((chunk) => chunk.text),
+        embeddings: vectors,
+        metadata: chunks.map((chunk) => chunk.metadata),
+      })
+    );
+
+    expect(await migrateLegacyStore(storePath, "float32")).toBe(true);
+    expect(fs.existsSync(path.join(storePath, "store.json"))).toBe(false);
+
+    const manifest = await readStoreManifest(storePath);
+    expect(manifest?.count).toBe(3);
+    expect(await readChunks(storePath)).toEqual(chunks);
+    expect(await migrateLegacyStore(storePath)).toBe(false);
+  });
+});
+
+describe("embedding checkpoints", () => {
+  it("resumes from the vectors recorded so far", async () => {
+    await appendEmbeddingCheckpoint(storePath, "key", vectors.slice(0, 2), 2);
+    await appendEmbeddingCheckpoint(storePath, "key", vectors.slice(2), 3);
+
+    const checkpoint = await readEmbeddingCheckpoint(storePath, "key");
+    expect(checkpoint?.dimensions).toBe(4);
+    expect(checkpoint?.vectors).toEqual(vectors.map((vector) => Array.from(new Float32Array(vector))));
+  });
+
+  it("ignores vectors appended after the last recorded count", async () => {
+    await appendEmbeddingCheckpoint(storePath, "key", vectors.slice(0, 2), 2);
+    fs.appendFileSync(path.join(storePath, "checkpoint.f32"), Buffer.from(new Float32Array(vectors[2]).buffer));
+
+    expect((await readEmbeddingCheckpoint(storePath, "key"))?.vectors).toHaveLength(2);
+  });
+
+  it("discards a checkpoint made for different input", async () => {
+    await appendEmbeddingCheckpoint(storePath, "old", vectors, 3);
+
+    expect(await readEmbeddingCheckpoint(storePath, "new")).toBeNull();
+    expect(fs.existsSync(path.join(storePath, "checkpoint.json"))).toBe(false);
+  });
+});
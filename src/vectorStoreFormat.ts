@@ -0,0 +1,331 @@
+import path from "path";
+import fs from "fs";
+import { readFile, writeFile, rename, rm, appendFile, truncate } from "fs/promises";
+
+/**
+ * On-disk layout of a vector store directory (format version 2):
+ *
+ *   manifest.json        format version, dimensions, count, quantization
+ *   embeddings.f32       row-major little-endian Float32 vectors, or
+ *   embeddings.i8        int8-quantized vectors plus
+ *   embeddings.scale.f32 one Float32 scale per vector
+ *   chunks.jsonl         one {"text", "metadata"} object per line
+ *   metadata.json        human-readable store info (unchanged)
+ *
+ * While a store is being built, embedded batches are appended to
+ * checkpoint.f32 (progress in checkpoint.json) so an interrupted ingestion
+ * can resume; both are removed once the store is written.
+ *
+ * Version 1 stores are a single pretty-printed store.json and are migrated
+ * in place the first time they are loaded.
+ */
+export const STORE_FORMAT_VERSION = 2;
+
+export type EmbeddingQuantization = "float32" | "int8";
+
+/**
+ * Row-major embeddings as stored: int8 rows are kept quantized in memory.
+ * Each int8 row is its float32 row divided by a positive per-row scale, so
+ * cosine similarity against either is the same.
+ */
+export type EmbeddingMatrix = Float32Array | Int8Array;
+
+export interface StoreManifest {
+  formatVersion: number;
+  dimensions: number;
+  count: number;
+  quantization: EmbeddingQuantization;
+}
+
+export interface StoredChunk {
+  text: string;
+  metadata: Record<string, unknown>;
+}
+
+// Legacy (format version 1) store.json contents
+interface LegacyStoreData {
+  chunks: string[];
+  embeddings: number[][];
+  metadata: Array<Record<string, unknown>>;
+}
+
+const MANIFEST_FILE = "manifest.json";
+const FLOAT32_FILE = "embeddings.f32";
+const INT8_FILE = "embeddings.i8";
+const SCALE_FILE = "embeddings.scale.f32";
+const CHUNKS_FILE = "chunks.jsonl";
+const LEGACY_FILE = "store.json";
+const CHECKPOINT_FILE = "checkpoint.json";
+const CHECKPOINT_VECTORS_FILE = "checkpoint.f32";
+
+interface EmbeddingCheckpoint {
+  // Identifies the chunk list and embedding model the vectors belong to
+  key: string;
+  dimensions: number;
+  embedded: number;
+}
+
+if (new Uint8Array(new Uint16Array([1]).buffer)[0] !== 1) {
+  throw new Error("Vector store binary format requires a little-endian platform");
+}
+
+/**
+ * Default quantization for new stores (VECTOR_STORE_QUANTIZATION, default float32)
+ */
+export function getDefaultQuantization(): EmbeddingQuantization {
+  return process.env.VECTOR_STORE_QUANTIZATION === "int8" ? "int8" : "float32";
+}
+
+function toBuffer(array: Float32Array | Int8Array): Buffer {
+  return Buffer.from(array.buffer, array.byteOffset, array.byteLength);
+}
+
+/**
+ * Quantize each vector to int8 with a per-vector symmetric scale
+ */
+function quantizeInt8(
+  embeddings: Float32Array,
+  dimensions: number,
+  count: number
+): { values: Int8Array; scales: Float32Array } {
+  const values = new Int8Array(embeddings.length);
+  const scales = new Float32Array(count);
+
+  for (let row = 0; row < count; row++) {
+    const offset = row * dimensions;
+    let maxAbs = 0;
+    for (let i = 0; i < dimensions; i++) {
+      maxAbs = Math.max(maxAbs, Math.abs(embeddings[offset + i]));
+    }
+    const scale = maxAbs / 127 || 1;
+    scales[row] = scale;
+    for (let i = 0; i < dimensions; i++) {
+      values[offset + i] = Math.round(embeddings[offset + i] / scale);
+    }
+  }
+
+  return { values, scales };
+}
+
+/**
+ * Flatten a list of vectors into a row-major Float32Array
+ */
+export function packEmbeddings(vectors: number[][]): {
+  embeddings: Float32Array;
+  dimensions: number;
+} {
+  const dimensions = vectors[0]?.length || 0;
+  const embeddings = new Float32Array(vectors.length * dimensions);
+  vectors.forEach((vector, row) => {
+    if (vector.length !== dimensions) {
+      throw new Error(
+        `Embedding ${row} has ${vector.length} dimensions, expected ${dimensions}`
+      );
+    }
+    embeddings.set(vector, row * dimensions);
+  });
+  return { embeddings, dimensions };
+}
+
+/**
+ * Write a store's embeddings and chunks in the current format.
+ * Files are written under temporary names and renamed once complete.
+ */
+export async function writeStoreFiles(
+  storePath: string,
+  {
+    embeddings,
+    dimensions,
+    chunks,
+  }: { embeddings: Float32Array; dimensions: number; chunks: StoredChunk[] },
+  quantization: EmbeddingQuantization = getDefaultQuantization()
+): Promise<StoreManifest> {
+  const count = chunks.length;
+  const files: Array<[string, Buffer | string]> = [];
+
+  if (quantization === "int8") {
+    const { values, scales } = quantizeInt8(embeddings, dimensions, count);
+    files.push([INT8_FILE, toBuffer(values)], [SCALE_FILE, toBuffer(scales)]);
+  } else {
+    files.push([FLOAT32_FILE, toBuffer(embeddings)]);
+  }
+
+  files.push([
+    CHUNKS_FILE,
+    chunks.map((chunk) => JSON.stringify(chunk)).join("\n") + "\n",
+  ]);
+
+  const manifest: StoreManifest = {
+    formatVersion: STORE_FORMAT_VERSION,
+    dimensions,
+    count,
+    quantization,
+  };
+  // The manifest goes last so a partially written store is never loaded
+  files.push([MANIFEST_FILE, JSON.stringify(manifest, null, 2)]);
+
+  for (const [name, contents] of files) {
+    const target = path.join(storePath, name);
+    await writeFile(`${target}.tmp`, contents);
+    await rename(`${target}.tmp`, target);
+  }
+
+  return manifest;
+}
+
+/**
+ * Read the vectors embedded so far for an ingestion identified by `key`.
+ * Returns null when there is no checkpoint or it belongs to different input.
+ */
+export async function readEmbeddingCheckpoint(
+  storePath: string,
+  key: string
+): Promise<{ vectors: number[][]; dimensions: number } | null> {
+  const checkpointPath = path.join(storePath, CHECKPOINT_FILE);
+  if (!fs.existsSync(checkpointPath)) return null;
+
+  const checkpoint = JSON.parse(await readFile(checkpointPath, "utf-8")) as EmbeddingCheckpoint;
+  if (checkpoint.key !== key) {
+    await removeEmbeddingCheckpoint(storePath);
+    return null;
+  }
+
+  const vectorsPath = path.join(storePath, CHECKPOINT_VECTORS_FILE);
+  if (!fs.existsSync(vectorsPath)) {
+    await removeEmbeddingCheckpoint(storePath);
+    return null;
+  }
+
+  // Vectors may have been appended after the last checkpoint.json update; drop them
+  const byteLength = checkpoint.embedded * checkpoint.dimensions * 4;
+  await truncate(vectorsPath, byteLength);
+  const buffer = await readFile(vectorsPath);
+  const flat = new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + byteLength));
+
+  const vectors: number[][] = [];
+  for (let row = 0; row < checkpoint.embedded; row++) {
+    vectors.push(Array.from(flat.subarray(row * checkpoint.dimensions, (row + 1) * checkpoint.dimensions)));
+  }
+  return { vectors, dimensions: checkpoint.dimensions };
+}
+
+/**
+ * Append a batch of vectors to the ingestion checkpoint
+ */
+export async function appendEmbeddingCheckpoint(
+  storePath: string,
+  key: string,
+  batch: number[][],
+  embedded: number
+): Promise<void> {
+  const { embeddings, dimensions } = packEmbeddings(batch);
+  await appendFile(path.join(storePath, CHECKPOINT_VECTORS_FILE), toBuffer(embeddings));
+
+  const checkpoint: EmbeddingCheckpoint = { key, dimensions, embedded };
+  const target = path.join(storePath, CHECKPOINT_FILE);
+  await writeFile(`${target}.tmp`, JSON.stringify(checkpoint));
+  await rename(`${target}.tmp`, target);
+}
+
+export async function removeEmbeddingCheckpoint(storePath: string): Promise<void> {
+  for (const name of [CHECKPOINT_FILE, CHECKPOINT_VECTORS_FILE]) {
+    await rm(path.join(storePath, name), { force: true });
+  }
+}
+
+/**
+ * Read a store's manifest, or null if the directory has no current-format store
+ */
+export async function readStoreManifest(storePath: string): Promise<StoreManifest | null> {
+  const manifestPath = path.join(storePath, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return null;
+
+  const manifest = JSON.parse(await readFile(manifestPath, "utf-8")) as StoreManifest;
+  if (manifest.formatVersion !== STORE_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported vector store format version ${manifest.formatVersion} in ${storePath}`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Read a store's embeddings in their stored representation (int8 stores are
+ * not dequantized; the per-row scales are only needed to recover magnitudes)
+ */
+export async function readEmbeddings(
+  storePath: string,
+  manifest: StoreManifest
+): Promise<EmbeddingMatrix> {
+  if (manifest.quantization === "int8") {
+    const values = await readFile(path.join(storePath, INT8_FILE));
+    return new Int8Array(values.buffer, values.byteOffset, values.byteLength);
+  }
+
+  const buffer = await readFile(path.join(storePath, FLOAT32_FILE));
+  // Copy into an aligned ArrayBuffer; Buffer pooling may leave byteOffset unaligned
+  return new Float32Array(
+    buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+  );
+}
+
+/**
+ * Approximate memory used by a fully loaded store: the embedding matrix
+ * (1 byte per value for int8, 4 for float32) plus chunk text and the
+ * indexes built from it (estimated at twice the size of chunks.jsonl)
+ */
+export function estimateLoadedSize(storePath: string, manifest: StoreManifest): number {
+  const chunksPath = path.join(storePath, CHUNKS_FILE);
+  const chunkBytes = fs.existsSync(chunksPath) ? fs.statSync(chunksPath).size : 0;
+  const bytesPerValue = manifest.quantization === "int8" ? 1 : 4;
+  return manifest.count * manifest.dimensions * bytesPerValue + chunkBytes * 2;
+}
+
+/**
+ * Read a store's chunk text and metadata
+ */
+export async function readChunks(storePath: string): Promise<StoredChunk[]> {
+  const contents = await readFile(path.join(storePath, CHUNKS_FILE), "utf-8");
+  return contents
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line) as StoredChunk);
+}
+
+/**
+ * Whether a directory still holds a legacy store.json
+ */
+export function hasLegacyStore(storePath: string): boolean {
+  return fs.existsSync(path.join(storePath, LEGACY_FILE));
+}
+
+/**
+ * Convert a legacy store.json directory to the current format, then remove
+ * store.json. Returns false if there was nothing to migrate.
+ */
+export async function migrateLegacyStore(
+  storePath: string,
+  quantization: EmbeddingQuantization = getDefaultQuantization()
+): Promise<boolean> {
+  const legacyPath = path.join(storePath, LEGACY_FILE);
+  if (!fs.existsSync(legacyPath)) return false;
+
+  const legacy = JSON.parse(await readFile(legacyPath, "utf-8")) as LegacyStoreData;
+  const { embeddings, dimensions } = packEmbeddings(legacy.embeddings);
+
+  await writeStoreFiles(
+    storePath,
+    {
+      embeddings,
+      dimensions,
+      chunks: legacy.chunks.map((text, idx) => ({
+        text,
+        metadata: legacy.metadata[idx] || {},
+      })),
+    },
+    quantization
+  );
+  await rm(legacyPath);
+
+  return true;
+}
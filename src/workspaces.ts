@@ -0,0 +1,183 @@
+import path from "path";
+import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+import type { Principal } from "./auth";
+import { getDefaultKnowledgeManifest } from "./defaultKnowledge";
+import {
+  getVectorStoreSummary,
+  isValidStoreId,
+  listVectorStoreSummaries,
+  loadVectorStoreMetadata,
+  updateVectorStoreMetadata,
+  type VectorStoreSummary,
+} from "./vectorStore";
+
+/**
+ * Workspaces own stores, uploads and ingestion jobs. A store's metadata.json
+ * records its owning `workspaceId` and the workspaces it is shared with
+ * read-only (`sharedWith`). Default knowledge stores are readable by everyone.
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What a principal may do with a store:
+ * - "owner": query, rename, re-index, share and delete it
+ * - "read": query it and browse its chunks
+ */
+export type StoreAccess = "owner" | "read";
+
+const WORKSPACES_DIR = path.join(process.cwd(), ".workspaces");
+
+const WORKSPACE_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+function workspacePath(id: string): string {
+  return path.join(WORKSPACES_DIR, `${id}.json`);
+}
+
+function writeWorkspace(workspace: Workspace): void {
+  fs.mkdirSync(WORKSPACES_DIR, { recursive: true });
+  fs.writeFileSync(workspacePath(workspace.id), JSON.stringify(workspace, null, 2));
+}
+
+export function getWorkspace(id: string): Workspace | null {
+  if (!WORKSPACE_ID_PATTERN.test(id) || !fs.existsSync(workspacePath(id))) return null;
+  return JSON.parse(fs.readFileSync(workspacePath(id), "utf-8")) as Workspace;
+}
+
+/**
+ * Create a workspace with `ownerId` as its first member
+ */
+export function createWorkspace(name: string, ownerId: string): Workspace {
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: uuidv4(),
+    name,
+    ownerId,
+    memberIds: [ownerId],
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeWorkspace(workspace);
+  return workspace;
+}
+
+/**
+ * Workspaces a user belongs to, oldest first
+ */
+export function listWorkspacesForUser(userId: string): Workspace[] {
+  if (!fs.existsSync(WORKSPACES_DIR)) return [];
+  return fs
+    .readdirSync(WORKSPACES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => getWorkspace(path.basename(file, ".json")))
+    .filter((workspace): workspace is Workspace => workspace !== null && workspace.memberIds.includes(userId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function isWorkspaceMember(workspaceId: string, userId: string): boolean {
+  return getWorkspace(workspaceId)?.memberIds.includes(userId) ?? false;
+}
+
+/**
+ * Add a user to a workspace; returns null if the workspace does not exist
+ */
+export function addWorkspaceMember(workspaceId: string, userId: string): Workspace | null {
+  const workspace = getWorkspace(workspaceId);
+  if (!workspace) return null;
+  if (workspace.memberIds.includes(userId)) return workspace;
+
+  const updated = {
+    ...workspace,
+    memberIds: [...workspace.memberIds, userId],
+    updatedAt: new Date().toISOString(),
+  };
+  writeWorkspace(updated);
+  return updated;
+}
+
+/**
+ * Whether a resource recorded as owned by `workspaceId` (such as an
+ * ingestion job) belongs to the principal's workspace
+ */
+export function ownsResource(principal: Principal, workspaceId: string | undefined): boolean {
+  return principal.method === "none" || workspaceId === principal.workspaceId;
+}
+
+async function getDefaultKnowledgeStoreIds(): Promise<Set<string>> {
+  const manifest = await getDefaultKnowledgeManifest();
+  return new Set(Object.values(manifest.files).map((entry) => entry.storeId));
+}
+
+function accessFromMetadata(
+  principal: Principal,
+  metadata: Record<string, unknown> | null,
+  isDefaultKnowledge: boolean
+): StoreAccess | null {
+  if (principal.method === "none") return "owner";
+  if (metadata?.workspaceId === principal.workspaceId) return "owner";
+  const sharedWith = (metadata?.sharedWith as string[] | undefined) ?? [];
+  if (sharedWith.includes(principal.workspaceId) || isDefaultKnowledge) return "read";
+  return null;
+}
+
+/**
+ * The principal's access to a store, or null if it may not see it at all.
+ * Stores with no owning workspace (uploaded before workspaces existed) are
+ * only reachable with authentication disabled.
+ */
+export async function getStoreAccess(principal: Principal, storeId: string): Promise<StoreAccess | null> {
+  if (!isValidStoreId(storeId)) return null;
+  if (principal.method === "none") return "owner";
+  const defaultStoreIds = await getDefaultKnowledgeStoreIds();
+  return accessFromMetadata(principal, loadVectorStoreMetadata(storeId), defaultStoreIds.has(storeId));
+}
+
+/**
+ * Stores the principal can see, with its access to each, newest first
+ */
+export async function listAccessibleStores(
+  principal: Principal
+): Promise<Array<VectorStoreSummary & { access: StoreAccess }>> {
+  const defaultStoreIds = await getDefaultKnowledgeStoreIds();
+  const stores = await listVectorStoreSummaries();
+  return stores.flatMap((store) => {
+    const access = accessFromMetadata(principal, store.metadata, defaultStoreIds.has(store.storeId));
+    return access ? [{ ...store, access }] : [];
+  });
+}
+
+/**
+ * Share a store read-only with another workspace
+ */
+export async function shareStore(storeId: string, workspaceId: string): Promise<string[] | null> {
+  const store = await getVectorStoreSummary(storeId);
+  if (!store) return null;
+
+  const sharedWith = (store.metadata.sharedWith as string[] | undefined) ?? [];
+  if (!sharedWith.includes(workspaceId)) {
+    updateVectorStoreMetadata(storeId, { sharedWith: [...sharedWith, workspaceId] });
+    return [...sharedWith, workspaceId];
+  }
+  return sharedWith;
+}
+
+/**
+ * Stop sharing a store with a workspace
+ */
+export async function unshareStore(storeId: string, workspaceId: string): Promise<string[] | null> {
+  const store = await getVectorStoreSummary(storeId);
+  if (!store) return null;
+
+  const sharedWith = ((store.metadata.sharedWith as string[] | undefined) ?? []).filter(
+    (id) => id !== workspaceId
+  );
+  updateVectorStoreMetadata(storeId, { sharedWith });
+  return sharedWith;
+}
@@ -0,0 +1,10 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Same "@/..." import alias as tsconfig.json, so route handlers can be tested
+    alias: { "@": path.dirname(fileURLToPath(import.meta.url)) },
+  },
+});